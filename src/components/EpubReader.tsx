@@ -4,19 +4,13 @@ import { Button } from '@/components/ui/button'
 import { Loader2, ChevronLeft, ChevronRight, X } from 'lucide-react'
 import { Badge } from '@/components/ui/badge'
 import type { ChapterData, BookData } from '@/services/epubProcessor'
+import type { BookReaderProps } from '@/services/bookFormat'
 import { EpubProcessor } from '@/services/epubProcessor'
 import { cn } from '@/lib/utils'
 import { useTranslation } from 'react-i18next'
 import { Separator } from '@/components/ui/separator'
 
-interface EpubReaderProps {
-  initialChapterId: string
-  chapterIds: string[]
-  chapters: ChapterData[]
-  bookData?: BookData
-  onClose: () => void
-  className?: string
-}
+type EpubReaderProps = BookReaderProps<BookData, ChapterData>
 
 const epubProcessor = new EpubProcessor()
 
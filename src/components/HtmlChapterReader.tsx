@@ -0,0 +1,150 @@
+import { useState, useEffect, useMemo, useRef } from 'react'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Button } from '@/components/ui/button'
+import { ChevronLeft, ChevronRight, X } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import type { BookData, BookReaderProps, ChapterData } from '@/services/bookFormat'
+import { cn } from '@/lib/utils'
+import { Separator } from '@/components/ui/separator'
+
+interface HtmlChapterReaderProps<TBook extends BookData, TChapter extends ChapterData> extends BookReaderProps<TBook, TChapter> {
+  // 由格式处理器从已解析的书籍数据中取出章节的HTML（MOBI、DOCX、FB2 等）
+  getChapterHTML: (bookData: TBook, chapter: TChapter) => string
+}
+
+// 通用的HTML章节阅读器：书籍已完整解析到内存中，按章节取出HTML直接渲染
+export function HtmlChapterReader<TBook extends BookData, TChapter extends ChapterData>({ initialChapterId, chapterIds, chapters, bookData, onClose, className, getChapterHTML }: HtmlChapterReaderProps<TBook, TChapter>) {
+  const [currentIndex, setCurrentIndex] = useState(() =>
+    chapterIds.indexOf(initialChapterId)
+  )
+  const shadowRef = useRef<HTMLDivElement>(null)
+  const scrollAreaRef = useRef<HTMLDivElement>(null)
+
+  const chapter = chapters.find(ch => ch.id === chapterIds[currentIndex])!
+  const hasMultipleChapters = chapterIds.length > 1
+  const canGoPrevious = hasMultipleChapters && currentIndex > 0
+  const canGoNext = hasMultipleChapters && currentIndex < chapterIds.length - 1
+
+  const handlePrevious = () => {
+    if (canGoPrevious) {
+      setCurrentIndex(currentIndex - 1)
+    }
+  }
+
+  const handleNext = () => {
+    if (canGoNext) {
+      setCurrentIndex(currentIndex + 1)
+    }
+  }
+
+  const chapterHtmlContent = useMemo(() => {
+    if (!chapter || !bookData) return ''
+    try {
+      return getChapterHTML(bookData, chapter)
+    } catch (error) {
+      console.error('加载章节HTML失败:', error)
+      return ''
+    }
+  }, [chapter, bookData, getChapterHTML])
+
+  // 使用 Shadow DOM 来隔离书籍内容样式
+  useEffect(() => {
+    if (!shadowRef.current) return
+
+    const content = chapterHtmlContent || chapter.content
+    if (!content) return
+
+    const shadowRoot = shadowRef.current.shadowRoot || shadowRef.current.attachShadow({ mode: 'open' })
+    shadowRoot.innerHTML = `
+      <style>
+        * {
+          max-width: 100%;
+          box-sizing: border-box;
+        }
+        img {
+          max-width: 100%;
+          height: auto;
+        }
+        div {
+          width: 100%;
+          overflow-wrap: break-word;
+          word-wrap: break-word;
+        }
+      </style>
+      <div>${content}</div>
+    `
+  }, [chapterHtmlContent, chapter.content])
+
+  // 切换章节后滚动到顶部
+  useEffect(() => {
+    if (scrollAreaRef.current) {
+      const scrollViewport = scrollAreaRef.current.querySelector('[data-radix-scroll-area-viewport]')
+      if (scrollViewport) {
+        scrollViewport.scrollTop = 0
+      }
+    }
+  }, [currentIndex])
+
+  return (
+    <div className={cn("w-full h-full flex flex-col", className)}>
+      {/* Header */}
+      <div className="flex-shrink-0 p-2">
+        <div className="flex items-center justify-between gap-4 mb-3">
+          <div className="flex items-center gap-2">
+            <h2 className="text-lg font-semibold">{chapter.title}</h2>
+            {hasMultipleChapters && (
+              <Badge variant="secondary" className="text-xs">
+                {currentIndex + 1} / {chapterIds.length}
+              </Badge>
+            )}
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={onClose}
+            className="h-8 w-8"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {/* Navigation */}
+        {hasMultipleChapters && (
+          <div className="flex items-center justify-center gap-2">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={handlePrevious}
+              disabled={!canGoPrevious}
+              className="h-8 w-8"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm text-muted-foreground min-w-[80px] text-center">
+              {currentIndex + 1} / {chapterIds.length}
+            </span>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={handleNext}
+              disabled={!canGoNext}
+              className="h-8 w-8"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </div>
+      <Separator className="mb-3" />
+
+      {/* Content */}
+      <div className="flex-1 min-h-0 p-2">
+        <ScrollArea ref={scrollAreaRef} className="h-full">
+          <div className="prose prose-sm max-w-none px-3">
+            <div ref={shadowRef} className="w-full min-h-[200px]" />
+          </div>
+        </ScrollArea>
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
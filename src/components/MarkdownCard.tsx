@@ -2,13 +2,15 @@ import React, { useState } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
-import { Trash2, BookOpen, ChevronDown, ChevronUp, Loader2 } from 'lucide-react'
+import { Trash2, BookOpen, ChevronDown, ChevronUp, Loader2, AlertCircle } from 'lucide-react'
 import ReactMarkdown from 'react-markdown'
 import remarkGfm from 'remark-gfm'
 import remarkCjkFriendly from "remark-cjk-friendly";
 import { CopyButton } from '@/components/ui/copy-button'
 import { ViewContentDialog } from './ViewContentDialog'
 import { useTranslation } from 'react-i18next'
+import { formatTokenCount } from '@/utils/tokenEstimator'
+import type { TokenUsage } from '@/services/aiService'
 
 interface MarkdownCardProps {
   /** 章节ID */
@@ -41,6 +43,16 @@ interface MarkdownCardProps {
   defaultCollapsed?: boolean
   /** 是否为加载状态 */
   isLoading?: boolean
+  /** 加载时显示的提示，如等待重试 */
+  loadingHint?: string
+  /** 生成失败时的错误信息 */
+  error?: string
+  /** 生成结果的模型 */
+  model?: string
+  /** 生成消耗的 token */
+  usage?: TokenUsage
+  /** 命中缓存时为缓存的生成时间 */
+  cachedAt?: number
 }
 
 export const MarkdownCard: React.FC<MarkdownCardProps> = ({
@@ -59,8 +71,13 @@ export const MarkdownCard: React.FC<MarkdownCardProps> = ({
   className = '',
   defaultCollapsed = false,
   isLoading = false,
+  loadingHint,
+  error,
+  model,
+  usage,
+  cachedAt,
 }) => {
-  const { t } = useTranslation()
+  const { t, i18n } = useTranslation()
   const [isCollapsed, setIsCollapsed] = useState(defaultCollapsed)
 
   return (
@@ -71,6 +88,19 @@ export const MarkdownCard: React.FC<MarkdownCardProps> = ({
           <div className="truncate flex-1 w-1" title={title}>
             {title}
           </div>
+          {error && !isLoading && (
+            <AlertCircle className="h-4 w-4 text-red-500 shrink-0" />
+          )}
+          {model && !isLoading && !error && (
+            <Badge variant="secondary" className="font-mono font-normal max-w-40 truncate hidden md:block" title={t('results.generatedBy', { model })}>
+              {model}
+            </Badge>
+          )}
+          {isLoading && loadingHint && (
+            <span className="text-xs font-normal text-amber-600 truncate max-w-60" title={loadingHint}>
+              {loadingHint}
+            </span>
+          )}
           {isLoading ? (
               <Loader2 className="h-4 w-4 animate-spin" />
           ) : (
@@ -127,6 +157,11 @@ export const MarkdownCard: React.FC<MarkdownCardProps> = ({
               <Loader2 className="h-8 w-8 animate-spin mx-auto mb-2" />
               <p>{t('common.generatingContent')}</p>
             </div>
+          ) : error && !isLoading ? (
+            <div className="p-4 bg-red-50 rounded-lg border border-red-200 text-sm text-red-600 break-words">
+              <div className="font-medium mb-1">{t('results.groupFailed')}</div>
+              <div>{error}</div>
+            </div>
           ) : (
             <div className="text-gray-700 leading-relaxed prose prose-sm max-w-none">
               {reasoning && !markdownContent && (
@@ -137,9 +172,24 @@ export const MarkdownCard: React.FC<MarkdownCardProps> = ({
                   <div className="whitespace-pre-wrap font-mono text-xs">{reasoning}</div>
                 </div>
               )}
+              {/* 生成完成后思考过程默认折叠 */}
+              {reasoning && markdownContent && !isLoading && (
+                <details className="mb-4 p-3 bg-gray-50 rounded-lg border border-gray-200 text-sm text-gray-600 not-prose">
+                  <summary className="cursor-pointer text-xs uppercase tracking-wider text-gray-400">{t('common.reasoning')}</summary>
+                  <div className="mt-2 whitespace-pre-wrap font-mono text-xs">{reasoning}</div>
+                </details>
+              )}
               <ReactMarkdown remarkPlugins={[remarkGfm, remarkCjkFriendly]}>
                 {markdownContent || ''}
               </ReactMarkdown>
+              {(cachedAt || usage) && !isLoading && (
+                <div className="mt-4 pt-2 border-t text-xs text-gray-400 flex flex-wrap gap-x-3 gap-y-1 not-prose">
+                  {cachedAt && <span>{t('results.cachedAt', { time: new Date(cachedAt).toLocaleString(i18n.language) })}</span>}
+                  {usage && (
+                    <span>{t('results.tokenUsage', { input: formatTokenCount(usage.inputTokens), output: formatTokenCount(usage.outputTokens) })}</span>
+                  )}
+                </div>
+              )}
               {isLoading && (
                 <div className="flex justify-center py-4">
                   <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
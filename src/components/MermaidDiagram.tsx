@@ -5,6 +5,7 @@ import { ViewContentDialog } from './ViewContentDialog'
 import { Button } from '@/components/ui/button'
 import { ZoomIn, ZoomOut, RotateCcw, Maximize2, Minimize2 } from 'lucide-react'
 import { useTranslation } from 'react-i18next'
+import { fixMermaidSyntax } from '@/utils/mermaidValidator'
 
 interface MermaidDiagramProps {
     chart: string
@@ -133,8 +134,15 @@ export function MermaidDiagram({
                 // 生成唯一ID
                 const id = `mermaid-${Math.random().toString(36).substr(2, 9)}`
 
-                // 渲染mermaid图表
-                const { svg } = await mermaid.render(id, chart)
+                // 渲染mermaid图表，失败时尝试自动修复常见语法问题（兼容旧缓存中的图表）
+                let svg: string
+                try {
+                    svg = (await mermaid.render(id, chart)).svg
+                } catch (error) {
+                    const fixed = fixMermaidSyntax(chart)
+                    if (fixed === chart) throw error
+                    svg = (await mermaid.render(`${id}-fixed`, fixed)).svg
+                }
 
                 // 更新DOM
                 if (containerRef.current) {
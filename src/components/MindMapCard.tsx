@@ -1,5 +1,6 @@
 import React from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Trash2, ExternalLink, BookOpen, Loader2 } from 'lucide-react'
 import { CopyButton } from '@/components/ui/copy-button'
@@ -50,6 +51,12 @@ interface MindMapCardProps {
   mindElixirOptions?: Partial<Options>
   /** 是否为加载状态 */
   isLoading?: boolean
+  /** 加载时显示的提示，如等待重试 */
+  loadingHint?: string
+  /** 生成失败时的错误信息 */
+  error?: string
+  /** 生成结果的模型 */
+  model?: string
 }
 
 export const MindMapCard: React.FC<MindMapCardProps> = ({
@@ -73,9 +80,14 @@ export const MindMapCard: React.FC<MindMapCardProps> = ({
   mindMapClassName = 'aspect-square w-full max-w-[500px] mx-auto',
   mindElixirOptions = { direction: 1, alignment: 'nodes', editable:false },
   isLoading = false,
+  loadingHint,
+  error,
+  model,
 }) => {
   const { t } = useTranslation()
   const localMindElixirRef = React.useRef<MindElixirReactRef | null>(null)
+  // 流式生成时已解析出的部分思维导图，边生成边展示
+  const hasPartialData = isLoading && !!mindMapData.nodeData?.topic
 
   return (
     <Card className={`gap-2 ${className}`}>
@@ -85,7 +97,11 @@ export const MindMapCard: React.FC<MindMapCardProps> = ({
             {title}
           </div>
           {isLoading ? (
-              null
+            loadingHint ? (
+              <div className="text-xs font-normal text-amber-600 truncate mt-2" title={loadingHint}>
+                {loadingHint}
+              </div>
+            ) : null
           ) : (
             <div className="flex items-center gap-2 mt-2">
               {showOpenInMindElixir && onOpenInMindElixir && (
@@ -134,18 +150,34 @@ export const MindMapCard: React.FC<MindMapCardProps> = ({
                   downloadMindMap={onDownloadMindMap}
                 />
               )}
+              {model && !error && (
+                <Badge variant="secondary" className="ml-auto font-mono font-normal max-w-40 truncate" title={t('results.generatedBy', { model })}>
+                  {model}
+                </Badge>
+              )}
             </div>
           )}
         </CardTitle>
       </CardHeader>
       <CardContent>
-        {isLoading ? (
+        {isLoading && !hasPartialData ? (
           <div className="text-center text-gray-500 py-8">
             <Loader2 className="h-8 w-8 animate-spin mx-auto mb-2" />
             <p>{t('common.generatingMindMap')}</p>
           </div>
+        ) : error && !isLoading ? (
+          <div className="p-4 bg-red-50 rounded-lg border border-red-200 text-sm text-red-600 break-words">
+            <div className="font-medium mb-1">{t('results.groupFailed')}</div>
+            <div>{error}</div>
+          </div>
         ) : (
           <div className="border rounded-lg overflow-hidden">
+            {hasPartialData && (
+              <div className="flex items-center gap-2 px-3 py-2 text-xs text-gray-500 border-b">
+                <Loader2 className="h-3 w-3 animate-spin" />
+                {t('common.generatingMindMap')}
+              </div>
+            )}
             <MindElixirReact
               ref={localMindElixirRef}
               data={mindMapData}
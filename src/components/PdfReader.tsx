@@ -4,19 +4,13 @@ import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Loader2, ChevronLeft, ChevronRight, X } from 'lucide-react'
 import type { ChapterData, BookData } from '@/services/pdfProcessor'
+import type { BookReaderProps } from '@/services/bookFormat'
 import { PdfProcessor } from '@/services/pdfProcessor'
 import { cn } from '@/lib/utils'
 import { useTranslation } from 'react-i18next'
 import { Separator } from '@/components/ui/separator'
 
-interface PdfReaderProps {
-  initialChapterId: string
-  chapterIds: string[]
-  chapters: ChapterData[]
-  bookData?: BookData
-  onClose: () => void
-  className?: string
-}
+type PdfReaderProps = BookReaderProps<BookData, ChapterData>
 
 interface PageContent {
   canvas?: HTMLCanvasElement
@@ -1,4 +1,4 @@
-import { useState, useCallback, useEffect, useRef } from 'react'
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react'
 import { useTranslation } from 'react-i18next'
 import { Button } from '@/components/ui/button'
 import { Label } from '@/components/ui/label'
@@ -10,12 +10,15 @@ import { Upload, BookOpen, Brain, FileText, Loader2, List, Trash2, Tag, X, Refre
 import { ConfigDialog } from './project/ConfigDialog'
 import { TagDialog } from './TagDialog'
 import { ViewContentDialog } from './ViewContentDialog'
+import { TokenEstimateDialog } from './TokenEstimateDialog'
 import { CacheService } from '@/services/cacheService'
+import { AIService, AI_TASK_TYPES, type AITaskType } from '@/services/aiService'
+import { BookProcessingService } from '@/services/bookProcessingService'
 import { useConfigStore } from '@/stores/configStore'
+import { useModelStore } from '@/stores/modelStore'
 import { useCustomPromptStore } from '@/stores/customPromptStore'
 import { toast } from 'sonner'
-import { EpubProcessor, type ChapterData, type BookData as EpubBookData } from '@/services/epubProcessor'
-import { PdfProcessor, type BookData as PdfBookData } from '@/services/pdfProcessor'
+import { getBookFormatHandler, getSupportedFileAccept, isSupportedBookFile, type BookData, type ChapterData } from '@/services/bookFormat'
 
 const cacheService = new CacheService()
 
@@ -23,7 +26,7 @@ interface Step1ConfigProps {
   file: File | null
   onFileChange: (file: File | null) => void
   extractedChapters: ChapterData[] | null
-  onChaptersExtracted: (chapters: ChapterData[], bookData: { title: string; author: string }, fullBookData: EpubBookData | PdfBookData) => void
+  onChaptersExtracted: (chapters: ChapterData[], bookData: { title: string; author: string }, fullBookData: BookData) => void
   onStartProcessing: (selectedChapters: Set<string>, chapterTags: Map<string, string>, customPrompt: string, useCustomOnly: boolean) => void
   processing: boolean
   onReadChapter: (chapterId: string, chapterIds: string[]) => void
@@ -57,8 +60,10 @@ export function Step1Config({
   const fileInputRef = useRef<HTMLInputElement>(null)
 
   const configStore = useConfigStore()
-  const { apiKey } = configStore.aiConfig
-  const { processingMode, skipNonEssentialChapters, maxSubChapterDepth, forceUseSpine } = configStore.processingOptions
+  const { aiConfig } = configStore
+  const { apiKey } = aiConfig
+  const { models, taskModels } = useModelStore()
+  const { processingMode, bookType, skipNonEssentialChapters, maxSubChapterDepth, forceUseSpine, removeHeadersFooters, includeNotes } = configStore.processingOptions
   const { prompts } = useCustomPromptStore()
   const abortControllerRef = useRef<AbortController | null>(null)
 
@@ -72,31 +77,21 @@ export function Step1Config({
     abortControllerRef.current = new AbortController()
 
     try {
-      let extractedBookData: { title: string; author: string }
-      let chapters: ChapterData[]
-      let fullBookData: EpubBookData | PdfBookData
-
-      const isEpub = targetFile.name.endsWith('.epub')
-      const isPdf = targetFile.name.endsWith('.pdf')
-
-      if (isEpub) {
-        const processor = new EpubProcessor()
-        const bookData = await processor.parseEpub(targetFile)
-        extractedBookData = { title: bookData.title, author: bookData.author }
-        fullBookData = bookData
-
-        chapters = await processor.extractChapters(bookData.book, skipNonEssentialChapters, maxSubChapterDepth, forceUseSpine)
-      } else if (isPdf) {
-        const processor = new PdfProcessor()
-        const bookData = await processor.parsePdf(targetFile)
-        extractedBookData = { title: bookData.title, author: bookData.author }
-        fullBookData = bookData
-
-        chapters = await processor.extractChapters(targetFile, skipNonEssentialChapters, maxSubChapterDepth)
-      } else {
+      const formatHandler = getBookFormatHandler(targetFile)
+      if (!formatHandler) {
         throw new Error(t('upload.unsupportedFormat'))
       }
 
+      const fullBookData = await formatHandler.parse(targetFile)
+      const extractedBookData = { title: fullBookData.title, author: fullBookData.author }
+      const chapters = await formatHandler.extractChapters(targetFile, fullBookData, {
+        skipNonEssentialChapters,
+        maxSubChapterDepth,
+        forceUseSpine,
+        removeHeadersFooters,
+        includeNotes
+      })
+
       onChaptersExtracted(chapters, extractedBookData, fullBookData)
 
       toast.success(t('progress.successfullyExtracted', { count: chapters.length }), {
@@ -116,7 +111,7 @@ export function Step1Config({
         abortControllerRef.current = null
       }
     }
-  }, [file, skipNonEssentialChapters, maxSubChapterDepth, forceUseSpine, t, onChaptersExtracted, onError])
+  }, [file, skipNonEssentialChapters, maxSubChapterDepth, forceUseSpine, removeHeadersFooters, includeNotes, t, onChaptersExtracted, onError])
 
   // 清除整本书缓存的函数
   const clearBookCache = useCallback(async () => {
@@ -195,7 +190,7 @@ export function Step1Config({
   }, [extractedChapters, file])
 
   const validateAndSetFile = useCallback((selectedFile: File | null) => {
-    if (selectedFile && (selectedFile.name.endsWith('.epub') || selectedFile.name.endsWith('.pdf'))) {
+    if (selectedFile && isSupportedBookFile(selectedFile)) {
       console.log('✅ [DEBUG] 文件验证通过:', selectedFile.name)
       onFileChange(selectedFile)
       extractChapters(selectedFile)
@@ -330,6 +325,29 @@ export function Step1Config({
     }
   }, [chapterTags, file])
 
+  // 处理前预估 token 用量和费用，仅做本地计算，不会发起请求
+  // 每种任务实际使用的模型配置，未指定的任务使用当前选择的模型
+  const taskConfigs = useMemo(() => {
+    return Object.fromEntries(AI_TASK_TYPES.map(task => [
+      task,
+      models.find(m => m.id === taskModels[task]) ?? aiConfig
+    ])) as Record<AITaskType, typeof aiConfig>
+  }, [models, taskModels, aiConfig])
+
+  const tokenEstimate = useMemo(() => {
+    if (!extractedChapters || selectedChapters.size === 0) return null
+    // 模型配置不完整时（如 Azure 未填写终结点）创建 AIService 会抛出错误，此时不显示预估
+    try {
+      const estimateService = new BookProcessingService(task => new AIService(taskConfigs[task]), cacheService)
+      const chapters = extractedChapters.filter(chapter => selectedChapters.has(chapter.id))
+      const groups = estimateService.groupChaptersByTag(chapters, chapterTags)
+      return estimateService.estimateTokenUsage(groups, processingMode, bookType, customPrompt, useCustomOnly)
+    } catch (error) {
+      console.warn('⚠️ [DEBUG] 无法预估 token 用量:', error)
+      return null
+    }
+  }, [extractedChapters, selectedChapters, chapterTags, processingMode, bookType, customPrompt, useCustomOnly, taskConfigs])
+
   const bookData = extractedChapters && extractedChapters.length > 0
     ? { title: '已提取章节', author: '' }
     : null
@@ -361,7 +379,7 @@ export function Step1Config({
       <input
         ref={fileInputRef}
         type="file"
-        accept=".epub,.pdf"
+        accept={getSupportedFileAccept()}
         onChange={handleFileChange}
         className="hidden"
       />
@@ -379,7 +397,7 @@ export function Step1Config({
       <input
         ref={fileInputRef}
         type="file"
-        accept=".epub,.pdf"
+        accept={getSupportedFileAccept()}
         onChange={handleFileChange}
         className="hidden"
       />
@@ -637,6 +655,11 @@ export function Step1Config({
               </div>
             )}
           </div>
+          {tokenEstimate && (
+            <div className="flex justify-end">
+              <TokenEstimateDialog estimate={tokenEstimate} taskConfigs={taskConfigs} />
+            </div>
+          )}
           <Button
             onClick={() => {
               if (!apiKey) {
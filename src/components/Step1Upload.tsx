@@ -8,6 +8,7 @@ import { Upload, BookOpen, Brain, FileText, Loader2, List } from 'lucide-react'
 import { ConfigDialog } from './project/ConfigDialog'
 import { toast } from 'sonner'
 import type { ChapterData } from '../services/epubProcessor'
+import { getSupportedFileAccept } from '../services/bookFormat'
 
 interface Step1UploadProps {
   file: File | null
@@ -73,7 +74,7 @@ export function Step1Upload({
             <Input
               id="file"
               type="file"
-              accept=".epub,.pdf"
+              accept={getSupportedFileAccept()}
               onChange={onFileChange}
               disabled={processing}
             />
@@ -1,6 +1,7 @@
 
 import { useTranslation } from 'react-i18next'
 import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
 import { Progress } from '@/components/ui/progress'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { ScrollArea } from '@/components/ui/scroll-area'
@@ -9,9 +10,13 @@ import { BookOpen, Network, Loader2, ArrowLeft, Download, RefreshCw } from 'luci
 import { MarkdownCard } from './MarkdownCard'
 import { MermaidDiagram } from './MermaidDiagram'
 import { MindMapCard } from './MindMapCard'
+import { TokenUsageDialog } from './TokenUsageDialog'
 import { openInMindElixir, downloadMindMap } from '@/utils'
 import type { MindElixirData, Options } from 'mind-elixir'
-import type { ChapterData } from '@/services/epubProcessor'
+import type { ChapterData } from '@/services/bookFormat'
+import type { ChunkProgress } from '@/services/bookProcessingService'
+import type { RetryInfo, TokenUsage } from '@/services/aiService'
+import type { BookTokenUsage } from '@/services/cacheService'
 import { toast } from 'sonner'
 import { useConfigStore } from '@/stores/configStore'
 
@@ -24,6 +29,10 @@ interface ChapterGroup {
   reasoning?: string
   mindMap?: MindElixirData
   isLoading?: boolean
+  error?: string
+  model?: string
+  usage?: TokenUsage
+  cachedAt?: number
 }
 
 interface BookSummary {
@@ -35,6 +44,9 @@ interface BookSummary {
   overallSummary: string
   connectionsLoading?: boolean
   overallSummaryLoading?: boolean
+  connectionsModel?: string
+  characterRelationshipModel?: string
+  overallSummaryModel?: string
 }
 
 interface BookMindMap {
@@ -42,6 +54,8 @@ interface BookMindMap {
   author: string
   groups: ChapterGroup[]
   combinedMindMap: MindElixirData | null
+  combinedMindMapModel?: string
+  combinedMindMapLoading?: boolean
 }
 
 interface Step2ResultsProps {
@@ -49,9 +63,13 @@ interface Step2ResultsProps {
   processing: boolean
   progress: number
   currentStep: string
+  chunkProgress?: Map<string, ChunkProgress>
+  // 按组的 groupId 或整书步骤的任务类型记录的重试状态
+  retryInfo?: Map<string, RetryInfo>
   error: string | null
   bookSummary: BookSummary | null
   bookMindMap: BookMindMap | null
+  tokenUsage?: BookTokenUsage | null
   processingMode: 'summary' | 'mindmap' | 'combined-mindmap'
   extractedChapters: ChapterData[] | null
   onBackToConfig: () => void
@@ -59,6 +77,7 @@ interface Step2ResultsProps {
   onClearSpecificCache: (cacheType: 'connections' | 'overall_summary' | 'character_relationship' | 'combined_mindmap' | 'merged_mindmap') => void
   onReadChapter: (chapterId: string, chapterIds: string[]) => void
   onRetry?: () => void
+  onRetryFailedGroups?: () => void
   mindElixirOptions: Options
 }
 
@@ -66,9 +85,12 @@ export function Step2Results({
   processing,
   progress,
   currentStep,
+  chunkProgress,
+  retryInfo,
   error,
   bookSummary,
   bookMindMap,
+  tokenUsage,
   processingMode,
   extractedChapters,
   onBackToConfig,
@@ -76,10 +98,40 @@ export function Step2Results({
   onClearSpecificCache,
   onReadChapter,
   onRetry,
+  onRetryFailedGroups,
   mindElixirOptions
 }: Step2ResultsProps) {
   const { t } = useTranslation()
   const { bookType } = useConfigStore(state => state.processingOptions)
+
+  const resultGroups = bookSummary?.groups || bookMindMap?.groups || []
+  const failedGroupCount = resultGroups.filter(group => group.error).length
+
+  // 多个组同时分块处理时，在进度前加上组名区分
+  const getChunkProgressLabel = (id: string) => {
+    if (!chunkProgress || chunkProgress.size < 2) return ''
+    const group = resultGroups.find(g => g.groupId === id)
+    return group ? `${group.tag || group.chapterTitles[0]}: ` : ''
+  }
+
+  // 429 为限流，其余状态码为服务端错误，没有状态码时为网络错误
+  const getRetryReason = (info: RetryInfo) => {
+    if (info.status === 429) return t('progress.rateLimited')
+    if (info.status) return t('progress.serverError', { status: info.status })
+    return t('progress.networkError')
+  }
+
+  // 等待重试时显示在对应的卡片上
+  const getRetryNotice = (key: string) => {
+    const info = retryInfo?.get(key)
+    if (!info) return undefined
+    return t('progress.retrying', {
+      reason: getRetryReason(info),
+      seconds: Math.ceil(info.delayMs / 1000),
+      attempt: info.attempt,
+      maxRetries: info.maxRetries
+    })
+  }
   const showCharacterRelationship = bookType !== 'non-fiction'
 
   const downloadAllMarkdown = () => {
@@ -192,6 +244,31 @@ ${bookSummary.overallSummary}
             )}
           </div>
 
+          {/* 本书累计的 token 用量 */}
+          {tokenUsage && (
+            <div className="flex justify-end">
+              <TokenUsageDialog usage={tokenUsage} />
+            </div>
+          )}
+
+          {/* 失败的组 */}
+          {!processing && failedGroupCount > 0 && onRetryFailedGroups && (
+            <div className="flex items-center justify-between gap-2 text-sm">
+              <span className="text-amber-600 truncate">
+                {t('results.failedGroups', { count: failedGroupCount })}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={onRetryFailedGroups}
+                className="flex items-center gap-1 text-xs shrink-0"
+              >
+                <RefreshCw className="h-3 w-3" />
+                {t('results.retryFailedGroups')}
+              </Button>
+            </div>
+          )}
+
           {/* 进度条状态 */}
           {(processing || error) && (
             <div className="space-y-2">
@@ -218,6 +295,14 @@ ${bookSummary.overallSummary}
                     <>
                       <Loader2 className="h-4 w-4 animate-spin" />
                       <span>{currentStep}</span>
+                      {chunkProgress && [...chunkProgress].map(([id, progress]) => (
+                        <span key={id} className="text-xs text-gray-500 shrink-0">
+                          {getChunkProgressLabel(id)}
+                          {progress.stage === 'map'
+                            ? t('progress.chunkMap', { current: progress.current, total: progress.total })
+                            : t('progress.chunkReduce', { total: progress.total })}
+                        </span>
+                      ))}
                     </>
                   )}
                 </div>
@@ -268,6 +353,11 @@ ${bookSummary.overallSummary}
                           defaultCollapsed={index > 0}
                           onClearCache={onClearChapterCache}
                           isLoading={group.isLoading}
+                          error={group.error}
+                          model={group.model}
+                          usage={group.usage}
+                          cachedAt={group.cachedAt}
+                          loadingHint={getRetryNotice(group.groupId)}
                           onReadChapter={() => {
                             const chapterIds = group.chapterIds
                             if (chapterIds.length > 0) {
@@ -291,6 +381,8 @@ ${bookSummary.overallSummary}
                       showCopyButton={true}
                       onClearCache={() => onClearSpecificCache('connections')}
                       isLoading={bookSummary.connectionsLoading}
+                      loadingHint={getRetryNotice('connections')}
+                      model={bookSummary.connectionsModel}
                     />
                   </TabsContent>
 
@@ -298,7 +390,14 @@ ${bookSummary.overallSummary}
                     <TabsContent value="characterRelationship">
                       <div className="bg-white rounded-lg p-6 border border-gray-200">
                         <div className="flex items-center justify-between mb-4">
-                          <h3 className="text-lg font-semibold">{t('results.tabs.characterRelationship')}</h3>
+                          <h3 className="text-lg font-semibold flex items-center gap-2">
+                            {t('results.tabs.characterRelationship')}
+                            {bookSummary.characterRelationshipModel && (
+                              <Badge variant="secondary" className="font-mono font-normal" title={t('results.generatedBy', { model: bookSummary.characterRelationshipModel })}>
+                                {bookSummary.characterRelationshipModel}
+                              </Badge>
+                            )}
+                          </h3>
                           <Button
                             variant="outline"
                             size="sm"
@@ -315,6 +414,9 @@ ${bookSummary.overallSummary}
                         ) : (
                           <div className="text-center text-gray-500 py-8">
                             {t('results.generatingCharacterRelationship')}
+                            {getRetryNotice('characterRelationship') && (
+                              <div className="text-xs text-amber-600 mt-2">{getRetryNotice('characterRelationship')}</div>
+                            )}
                           </div>
                         )}
                       </div>
@@ -333,6 +435,8 @@ ${bookSummary.overallSummary}
                       showCopyButton={true}
                       onClearCache={() => onClearSpecificCache('overall_summary')}
                       isLoading={bookSummary.overallSummaryLoading}
+                      loadingHint={getRetryNotice('overallSummary')}
+                      model={bookSummary.overallSummaryModel}
                     />
                   </TabsContent>
                 </Tabs>
@@ -359,6 +463,9 @@ ${bookSummary.overallSummary}
                           id={group.groupId}
                           title={groupTitle}
                           isLoading={group.isLoading}
+                          loadingHint={getRetryNotice(group.groupId)}
+                          error={group.error}
+                          model={group.model}
                           content={groupContent}
                           mindMapData={group.mindMap || { nodeData: { topic: '', id: '', children: [] } }}
                           index={index}
@@ -385,6 +492,7 @@ ${bookSummary.overallSummary}
                         title={t('results.tabs.combinedMindMap')}
                         content=""
                         mindMapData={bookMindMap.combinedMindMap}
+                        model={bookMindMap.combinedMindMapModel}
                         index={0}
                         onOpenInMindElixir={(mindmapData) => openInMindElixir(mindmapData, t('results.combinedMindMapTitle', { title: bookMindMap.title }))}
                         onDownloadMindMap={downloadMindMap}
@@ -409,6 +517,9 @@ ${bookSummary.overallSummary}
                     title={t('results.tabs.combinedMindMap')}
                     content=""
                     mindMapData={bookMindMap.combinedMindMap}
+                    model={bookMindMap.combinedMindMapModel}
+                    isLoading={bookMindMap.combinedMindMapLoading}
+                    loadingHint={getRetryNotice('combinedMindMap')}
                     index={0}
                     onOpenInMindElixir={(mindmapData) => openInMindElixir(mindmapData, t('results.combinedMindMapTitle', { title: bookMindMap.title }))}
                     onDownloadMindMap={downloadMindMap}
@@ -422,6 +533,9 @@ ${bookSummary.overallSummary}
                 ) : (
                   <div className="text-center text-gray-500 py-8 bg-gray-50 rounded-lg">
                     {t('results.generatingMindMap')}
+                    {getRetryNotice('combinedMindMap') && (
+                      <div className="text-xs text-amber-600 mt-2">{getRetryNotice('combinedMindMap')}</div>
+                    )}
                   </div>
                 )
               ) : null}
@@ -0,0 +1,120 @@
+import { useState, useEffect, useRef } from 'react'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Button } from '@/components/ui/button'
+import { ChevronLeft, ChevronRight, X } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import ReactMarkdown from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+import remarkCjkFriendly from 'remark-cjk-friendly'
+import type { ChapterData, BookData } from '@/services/textProcessor'
+import type { BookReaderProps } from '@/services/bookFormat'
+import { cn } from '@/lib/utils'
+import { Separator } from '@/components/ui/separator'
+
+type TextReaderProps = BookReaderProps<BookData, ChapterData>
+
+export function TextReader({ initialChapterId, chapterIds, chapters, bookData, onClose, className }: TextReaderProps) {
+  const [currentIndex, setCurrentIndex] = useState(() =>
+    chapterIds.indexOf(initialChapterId)
+  )
+  const scrollAreaRef = useRef<HTMLDivElement>(null)
+
+  const chapter = chapters.find(ch => ch.id === chapterIds[currentIndex])!
+  const hasMultipleChapters = chapterIds.length > 1
+  const canGoPrevious = hasMultipleChapters && currentIndex > 0
+  const canGoNext = hasMultipleChapters && currentIndex < chapterIds.length - 1
+
+  const handlePrevious = () => {
+    if (canGoPrevious) {
+      setCurrentIndex(currentIndex - 1)
+    }
+  }
+
+  const handleNext = () => {
+    if (canGoNext) {
+      setCurrentIndex(currentIndex + 1)
+    }
+  }
+
+  // 切换章节后滚动到顶部
+  useEffect(() => {
+    if (scrollAreaRef.current) {
+      const scrollViewport = scrollAreaRef.current.querySelector('[data-radix-scroll-area-viewport]')
+      if (scrollViewport) {
+        scrollViewport.scrollTop = 0
+      }
+    }
+  }, [currentIndex])
+
+  return (
+    <div className={cn("w-full h-full flex flex-col", className)}>
+      {/* Header */}
+      <div className="flex-shrink-0 p-2">
+        <div className="flex items-center justify-between gap-4 mb-3">
+          <div className="flex items-center gap-2">
+            <h2 className="text-lg font-semibold">{chapter.title}</h2>
+            {hasMultipleChapters && (
+              <Badge variant="secondary" className="text-xs">
+                {currentIndex + 1} / {chapterIds.length}
+              </Badge>
+            )}
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={onClose}
+            className="h-8 w-8"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {/* Navigation */}
+        {hasMultipleChapters && (
+          <div className="flex items-center justify-center gap-2">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={handlePrevious}
+              disabled={!canGoPrevious}
+              className="h-8 w-8"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm text-muted-foreground min-w-[80px] text-center">
+              {currentIndex + 1} / {chapterIds.length}
+            </span>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={handleNext}
+              disabled={!canGoNext}
+              className="h-8 w-8"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </div>
+      <Separator className="mb-3" />
+
+      {/* Content */}
+      <div className="flex-1 min-h-0 p-2">
+        <ScrollArea ref={scrollAreaRef} className="h-full">
+          <div className="prose prose-sm max-w-none px-3">
+            {/* TXT/MD 章节内容本身就是文本，Markdown 直接渲染，纯文本保留原有换行 */}
+            {bookData?.isMarkdown ? (
+              <ReactMarkdown remarkPlugins={[remarkGfm, remarkCjkFriendly]}>
+                {chapter.content}
+              </ReactMarkdown>
+            ) : (
+              <div className="w-full min-h-[200px] whitespace-pre-wrap break-words">
+                {chapter.content}
+              </div>
+            )}
+          </div>
+        </ScrollArea>
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,97 @@
+import { useTranslation } from 'react-i18next'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog'
+import { Button } from './ui/button'
+import { ScrollArea } from './ui/scroll-area'
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from './ui/table'
+import { Calculator } from 'lucide-react'
+import { calculateCost, formatCost, formatTokenCount } from '@/utils/tokenEstimator'
+import type { ProcessingEstimate, TokenEstimate } from '@/services/bookProcessingService'
+import type { AITaskType } from '@/services/aiService'
+
+interface TokenEstimateDialogProps {
+  estimate: ProcessingEstimate
+  // 每种任务使用的模型单价，费用按各自的模型分别计算
+  taskConfigs: Record<AITaskType, { inputPrice?: number; outputPrice?: number }>
+}
+
+export function TokenEstimateDialog({ estimate, taskConfigs }: TokenEstimateDialogProps) {
+  const { t } = useTranslation()
+
+  const getItemCost = (item: TokenEstimate) => {
+    const { inputPrice, outputPrice } = taskConfigs[item.task]
+    return calculateCost(item.inputTokens, item.outputTokens, inputPrice, outputPrice)
+  }
+
+  // 只要有一项设置了价格就汇总，未设置价格的项不计入
+  const itemCosts = [...estimate.groups, ...estimate.bookLevel].map(getItemCost)
+  const totalCost = itemCosts.every(cost => cost === null)
+    ? null
+    : itemCosts.reduce<number>((sum, cost) => sum + (cost || 0), 0)
+
+  const renderRow = (item: TokenEstimate, label: string) => {
+    const cost = getItemCost(item)
+    return (
+      <TableRow key={item.id}>
+        <TableCell className="max-w-[240px] truncate" title={label}>{label}</TableCell>
+        <TableCell className="text-right">{item.requests}</TableCell>
+        <TableCell className="text-right">{formatTokenCount(item.inputTokens)}</TableCell>
+        <TableCell className="text-right">{formatTokenCount(item.outputTokens)}</TableCell>
+        <TableCell className="text-right">{cost === null ? '-' : `$${formatCost(cost)}`}</TableCell>
+      </TableRow>
+    )
+  }
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-auto px-2 py-1 text-xs text-gray-600">
+          <Calculator className="h-3.5 w-3.5" />
+          {t('estimate.summary', {
+            input: formatTokenCount(estimate.inputTokens),
+            output: formatTokenCount(estimate.outputTokens)
+          })}
+          {totalCost !== null && ` · ${t('estimate.cost', { cost: formatCost(totalCost) })}`}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[80vh]">
+        <DialogHeader>
+          <DialogTitle>{t('estimate.title')}</DialogTitle>
+          <DialogDescription>
+            {t('estimate.description')}
+          </DialogDescription>
+        </DialogHeader>
+        <ScrollArea className="max-h-[55vh] w-full rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t('estimate.item')}</TableHead>
+                <TableHead className="text-right">{t('estimate.requests')}</TableHead>
+                <TableHead className="text-right">{t('estimate.inputTokens')}</TableHead>
+                <TableHead className="text-right">{t('estimate.outputTokens')}</TableHead>
+                <TableHead className="text-right">{t('estimate.costColumn')}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {estimate.groups.map(item => renderRow(item, item.label))}
+              {estimate.bookLevel.map(item => renderRow(item, t(`estimate.passes.${item.id}`)))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell>{t('estimate.total')}</TableCell>
+                <TableCell className="text-right">
+                  {[...estimate.groups, ...estimate.bookLevel].reduce((sum, item) => sum + item.requests, 0)}
+                </TableCell>
+                <TableCell className="text-right">{formatTokenCount(estimate.inputTokens)}</TableCell>
+                <TableCell className="text-right">{formatTokenCount(estimate.outputTokens)}</TableCell>
+                <TableCell className="text-right">{totalCost === null ? '-' : `$${formatCost(totalCost)}`}</TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+        </ScrollArea>
+        {totalCost === null && (
+          <p className="text-xs text-gray-500">{t('estimate.noPrice')}</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
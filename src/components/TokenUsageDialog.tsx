@@ -0,0 +1,89 @@
+import { useTranslation } from 'react-i18next'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog'
+import { Button } from './ui/button'
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from './ui/table'
+import { Coins } from 'lucide-react'
+import { formatCost, formatTokenCount } from '@/utils/tokenEstimator'
+import { AI_TASK_TYPES } from '@/services/aiService'
+import type { BookTokenUsage, TaskTokenUsage } from '@/services/cacheService'
+
+interface TokenUsageDialogProps {
+  usage: BookTokenUsage
+}
+
+export function TokenUsageDialog({ usage }: TokenUsageDialogProps) {
+  const { t } = useTranslation()
+
+  const tasks = AI_TASK_TYPES.filter(task => usage[task])
+  const items = tasks.map(task => usage[task] as TaskTokenUsage)
+  const total = items.reduce((sum, item) => ({
+    requests: sum.requests + item.requests,
+    inputTokens: sum.inputTokens + item.inputTokens,
+    outputTokens: sum.outputTokens + item.outputTokens
+  }), { requests: 0, inputTokens: 0, outputTokens: 0 })
+  // 只要有一项设置了价格就汇总，未设置价格的项不计入
+  const totalCost = items.every(item => item.cost === undefined)
+    ? null
+    : items.reduce((sum, item) => sum + (item.cost || 0), 0)
+
+  if (tasks.length === 0) return null
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-auto px-2 py-1 text-xs text-gray-600" onClick={e => e.stopPropagation()}>
+          <Coins className="h-3.5 w-3.5" />
+          {t('usage.summary', {
+            input: formatTokenCount(total.inputTokens),
+            output: formatTokenCount(total.outputTokens)
+          })}
+          {totalCost !== null && ` · ${t('usage.cost', { cost: formatCost(totalCost) })}`}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl" onClick={e => e.stopPropagation()}>
+        <DialogHeader>
+          <DialogTitle>{t('usage.title')}</DialogTitle>
+          <DialogDescription>
+            {t('usage.description')}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t('usage.task')}</TableHead>
+                <TableHead className="text-right">{t('usage.requests')}</TableHead>
+                <TableHead className="text-right">{t('usage.inputTokens')}</TableHead>
+                <TableHead className="text-right">{t('usage.outputTokens')}</TableHead>
+                <TableHead className="text-right">{t('usage.costColumn')}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {tasks.map((task, index) => (
+                <TableRow key={task}>
+                  <TableCell>{t(`models.tasks.${task}`)}</TableCell>
+                  <TableCell className="text-right">{items[index].requests}</TableCell>
+                  <TableCell className="text-right">{formatTokenCount(items[index].inputTokens)}</TableCell>
+                  <TableCell className="text-right">{formatTokenCount(items[index].outputTokens)}</TableCell>
+                  <TableCell className="text-right">{items[index].cost === undefined ? '-' : `$${formatCost(items[index].cost)}`}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell>{t('usage.total')}</TableCell>
+                <TableCell className="text-right">{total.requests}</TableCell>
+                <TableCell className="text-right">{formatTokenCount(total.inputTokens)}</TableCell>
+                <TableCell className="text-right">{formatTokenCount(total.outputTokens)}</TableCell>
+                <TableCell className="text-right">{totalCost === null ? '-' : `$${formatCost(totalCost)}`}</TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+        </div>
+        {totalCost === null && (
+          <p className="text-xs text-gray-500">{t('usage.noPrice')}</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
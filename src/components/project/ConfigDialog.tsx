@@ -5,10 +5,12 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip'
-import { Settings, Brain } from 'lucide-react'
+import { Settings, Brain, Route, ShieldCheck, ArrowUp, ArrowDown, X } from 'lucide-react'
 import { useTranslation } from 'react-i18next'
 import { useConfigStore, useProcessingOptions } from '../../stores/configStore'
 import { useModelStore } from '../../stores/modelStore'
+import { AI_TASK_TYPES, DEFAULT_MAX_RETRIES } from '../../services/aiService'
+import { DEFAULT_CONCURRENCY } from '../../services/bookProcessingService'
 import type { SupportedLanguage } from '../../services/prompts/utils'
 import { useState, useEffect, useEffectEvent } from 'react'
 
@@ -20,25 +22,42 @@ interface ConfigDialogProps {
 export function ConfigDialog({ processing }: ConfigDialogProps) {
   const { t } = useTranslation()
   const processingOptions = useProcessingOptions()
-  const { models, getDefaultModel } = useModelStore()
+  const { models, getDefaultModel, taskModels, setTaskModel, fallbackModelIds, setFallbackModelIds, getFallbackModels } = useModelStore()
   const {
     setProcessingMode,
     setBookType,
     setSkipNonEssentialChapters,
     setOutputLanguage,
     setForceUseSpine,
+    setRemoveHeadersFooters,
+    setIncludeNotes,
     setAiProvider,
     setApiKey,
     setApiUrl,
     setModel,
-    setTemperature
+    setTemperature,
+    setThinkingBudget,
+    setApiVersion,
+    setContextWindow,
+    setInputPrice,
+    setOutputPrice,
+    setMaxRetries,
+    setConcurrency
   } = useConfigStore()
 
-  const { processingMode, bookType, skipNonEssentialChapters, outputLanguage, forceUseSpine } = processingOptions
+  const { processingMode, bookType, skipNonEssentialChapters, outputLanguage, forceUseSpine, removeHeadersFooters, includeNotes } = processingOptions
 
   const [selectedModelId, setSelectedModelId] = useState<string>('')
 
   const selectedModel = models.find(m => m.id === selectedModelId)
+  const fallbackModels = getFallbackModels()
+
+  const moveFallbackModel = (index: number, offset: number) => {
+    const ids = fallbackModels.map(m => m.id)
+    const [id] = ids.splice(index, 1)
+    ids.splice(index + offset, 0, id)
+    setFallbackModelIds(ids)
+  }
 
   const handleModelChange = (id: string) => {
     setSelectedModelId(id)
@@ -49,6 +68,13 @@ export function ConfigDialog({ processing }: ConfigDialogProps) {
       setApiUrl(model.apiUrl)
       setModel(model.model)
       setTemperature(model.temperature)
+      setThinkingBudget(model.thinkingBudget || 0)
+      setApiVersion(model.apiVersion || '')
+      setContextWindow(model.contextWindow || 0)
+      setInputPrice(model.inputPrice || 0)
+      setOutputPrice(model.outputPrice || 0)
+      setMaxRetries(model.maxRetries ?? DEFAULT_MAX_RETRIES)
+      setConcurrency(model.concurrency || DEFAULT_CONCURRENCY)
     }
   }
 
@@ -137,6 +163,110 @@ export function ConfigDialog({ processing }: ConfigDialogProps) {
               )}
             </div>
 
+            {/* Task Models */}
+            {models.length > 1 && (
+              <div className="space-y-3 p-4 bg-gray-50 rounded-lg border">
+                <div className="flex items-center gap-2">
+                  <Route className="h-4 w-4" />
+                  <Label className="text-sm font-medium">{t('models.taskModels')}</Label>
+                </div>
+                <p className="text-xs text-gray-600">
+                  {t('models.taskModelsDescription')}
+                </p>
+                <div className="grid grid-cols-2 gap-3">
+                  {AI_TASK_TYPES.map((task) => (
+                    <div key={task} className="space-y-1">
+                      <Label className="text-xs">{t(`models.tasks.${task}`)}</Label>
+                      <Select
+                        value={taskModels[task] || 'default'}
+                        onValueChange={(value) => setTaskModel(task, value === 'default' ? null : value)}
+                        disabled={processing}
+                      >
+                        <SelectTrigger className="h-8 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="default">{t('models.useSelectedModel')}</SelectItem>
+                          {models.map((model) => (
+                            <SelectItem key={model.id} value={model.id}>
+                              {model.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Fallback Models */}
+            {models.length > 1 && (
+              <div className="space-y-3 p-4 bg-gray-50 rounded-lg border">
+                <div className="flex items-center gap-2">
+                  <ShieldCheck className="h-4 w-4" />
+                  <Label className="text-sm font-medium">{t('models.fallbackModels')}</Label>
+                </div>
+                <p className="text-xs text-gray-600">
+                  {t('models.fallbackModelsDescription')}
+                </p>
+                {fallbackModels.map((model, index) => (
+                  <div key={model.id} className="flex items-center gap-2 text-sm">
+                    <span className="w-5 text-gray-500">{index + 1}.</span>
+                    <span className="flex-1 truncate" title={model.model}>{model.name}</span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0"
+                      onClick={() => moveFallbackModel(index, -1)}
+                      disabled={processing || index === 0}
+                    >
+                      <ArrowUp className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0"
+                      onClick={() => moveFallbackModel(index, 1)}
+                      disabled={processing || index === fallbackModels.length - 1}
+                    >
+                      <ArrowDown className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0"
+                      onClick={() => setFallbackModelIds(fallbackModelIds.filter(id => id !== model.id))}
+                      disabled={processing}
+                      title={t('models.removeFallbackModel')}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))}
+                {fallbackModels.length < models.length && (
+                  <Select
+                    value=""
+                    onValueChange={(value) => setFallbackModelIds([...fallbackModels.map(m => m.id), value])}
+                    disabled={processing}
+                  >
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue placeholder={t('models.addFallbackModel')} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {models
+                        .filter(model => !fallbackModels.some(m => m.id === model.id))
+                        .map((model) => (
+                          <SelectItem key={model.id} value={model.id}>
+                            {model.name}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+            )}
+
             <div className="p-3 bg-indigo-50 rounded-lg border">
               <div className="space-y-2">
                 <Label htmlFor="output-language" className="text-sm font-medium">
@@ -239,6 +369,40 @@ export function ConfigDialog({ processing }: ConfigDialogProps) {
               />
             </div>
 
+            <div className="flex items-center justify-between p-3 bg-teal-50 rounded-lg border">
+              <div className="space-y-1">
+                <Label htmlFor="include-notes" className="text-sm font-medium">
+                  {t('config.includeNotes')}
+                </Label>
+                <p className="text-xs text-gray-600">
+                  {t('config.includeNotesDescription')}
+                </p>
+              </div>
+              <Switch
+                id="include-notes"
+                checked={includeNotes}
+                onCheckedChange={setIncludeNotes}
+                disabled={processing}
+              />
+            </div>
+
+            <div className="flex items-center justify-between p-3 bg-rose-50 rounded-lg border">
+              <div className="space-y-1">
+                <Label htmlFor="remove-headers-footers" className="text-sm font-medium">
+                  {t('config.removeHeadersFooters')}
+                </Label>
+                <p className="text-xs text-gray-600">
+                  {t('config.removeHeadersFootersDescription')}
+                </p>
+              </div>
+              <Switch
+                id="remove-headers-footers"
+                checked={removeHeadersFooters}
+                onCheckedChange={setRemoveHeadersFooters}
+                disabled={processing}
+              />
+            </div>
+
             <div className="p-3 bg-amber-50 rounded-lg border mb-4">
               <div className="space-y-2">
                 <Label htmlFor="max-sub-chapter-depth" className="text-sm font-medium">
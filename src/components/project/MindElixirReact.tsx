@@ -54,7 +54,8 @@ const MindElixirReact = forwardRef<MindElixirReactRef, MindElixirReactProps>(
         el: mindmapEl.current!
       }
 
-      meInstance.current = new MindElixir(mergedOptions)
+      const instance = new MindElixir(mergedOptions)
+      meInstance.current = instance
 
       // Install plugins
       if (plugins) {
@@ -95,8 +96,10 @@ const MindElixirReact = forwardRef<MindElixirReactRef, MindElixirReactProps>(
       }
 
       // Return cleanup function
+      // 流式生成时数据频繁变化，重新创建实例前先销毁旧实例，避免事件监听累积
       return () => {
         mediaQuery.removeEventListener("change", changeTheme)
+        instance.destroy()
       }
     }, [options, plugins, initScale, data, fitPage])
 
@@ -3,6 +3,7 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import './i18n'
+import './services/builtinBookFormats'
 import App from './App.tsx'
 
 scan({
@@ -14,10 +14,11 @@ import {
     AlertDialogTitle,
 } from '@/components/ui/alert-dialog'
 import { Trash2, ArrowLeft, Loader2, FileText, Network, BookMarked } from 'lucide-react'
-import { CacheService, type CacheKeyType, type CacheValue } from '@/services/cacheService'
+import { CacheService, isCachedContent, isCachedMindMap, type BookTokenUsage, type CacheKeyType, type CacheMetadata, type CacheValue } from '@/services/cacheService'
 import { toast } from 'sonner'
 import { MarkdownCard } from '@/components/MarkdownCard'
 import { MindMapCard } from '@/components/MindMapCard'
+import { TokenUsageDialog } from '@/components/TokenUsageDialog'
 import type { MindElixirData } from 'mind-elixir'
 
 const cacheService = new CacheService()
@@ -53,6 +54,7 @@ const getCacheTypeLabel = (type: CacheKeyType, t: (key: string) => string): stri
         chapter_tags: t('cacheManagement.types.chapterTags'),
         custom_prompt: t('cacheManagement.types.customPrompt'),
         use_custom_only: t('cacheManagement.types.useCustomOnly'),
+        token_usage: t('cacheManagement.types.tokenUsage'),
     }
     return labels[type] || type
 }
@@ -67,6 +69,19 @@ const getEntryMode = (type: CacheKeyType): CacheMode | null => {
     return null
 }
 
+// 取出文本缓存的内容和元数据，旧版本直接缓存的字符串没有元数据
+const getTextCache = (value: CacheValue | undefined): { content: string; metadata?: CacheMetadata } => {
+    if (isCachedContent(value)) return value
+    return { content: typeof value === 'string' ? value : '' }
+}
+
+// 取出思维导图缓存的内容和元数据，旧版本直接缓存的思维导图没有元数据
+const getMindMapCache = (value: CacheValue | undefined): { content: MindElixirData; metadata?: CacheMetadata } => {
+    if (isCachedMindMap(value)) return value
+    if (value && typeof value === 'object' && 'nodeData' in value) return { content: value as MindElixirData }
+    return { content: { nodeData: { topic: '', id: '', children: [] } } }
+}
+
 export function CacheManagementPage() {
     const { t } = useTranslation()
     const [bookModeGroups, setBookModeGroups] = useState<BookModeGroup[]>([])
@@ -74,6 +89,7 @@ export function CacheManagementPage() {
     const [selectedGroup, setSelectedGroup] = useState<BookModeGroup | null>(null)
     const [cachedValues, setCachedValues] = useState<Map<string, CacheValue>>(new Map())
     const [loadingKeys, setLoadingKeys] = useState<Set<string>>(new Set())
+    const [tokenUsages, setTokenUsages] = useState<Map<string, BookTokenUsage>>(new Map())
     const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
     const [deleteTarget, setDeleteTarget] = useState<{ key?: string; group?: BookModeGroup } | null>(null)
 
@@ -83,6 +99,8 @@ export function CacheManagementPage() {
         try {
             const grouped = await cacheService.getCacheEntriesByBook()
             const groups: BookModeGroup[] = []
+            // token 用量不算缓存条目，在书籍的列表项和详情中单独展示
+            const usageKeys: { bookName: string; key: string }[] = []
 
             grouped.forEach((entries, bookName) => {
                 // 按模式分组
@@ -90,6 +108,10 @@ export function CacheManagementPage() {
                 const mindmapEntries: CacheEntry[] = []
 
                 for (const entry of entries) {
+                    if (entry.type === 'token_usage') {
+                        usageKeys.push({ bookName, key: entry.key })
+                        continue
+                    }
                     const mode = getEntryMode(entry.type)
                     if (mode === 'summary') {
                         summaryEntries.push(entry)
@@ -126,7 +148,16 @@ export function CacheManagementPage() {
                 return a.mode === 'summary' ? -1 : 1
             })
 
+            const usages = new Map<string, BookTokenUsage>()
+            for (const { bookName, key } of usageKeys) {
+                const value = await cacheService.getCacheValueByKey(key)
+                if (value && typeof value === 'object' && !Array.isArray(value)) {
+                    usages.set(bookName, value as BookTokenUsage)
+                }
+            }
+
             setBookModeGroups(groups)
+            setTokenUsages(usages)
         } catch (error) {
             console.error('Failed to load cache data:', error)
             toast.error(t('common.error'))
@@ -228,6 +259,9 @@ export function CacheManagementPage() {
                                 {modeLabel}
                             </Badge>
                             <span>{group.entries.length} {t('cacheManagement.items')}</span>
+                            {tokenUsages.has(group.bookName) && (
+                                <TokenUsageDialog usage={tokenUsages.get(group.bookName)!} />
+                            )}
                         </div>
                     </div>
                 </div>
@@ -286,13 +320,18 @@ export function CacheManagementPage() {
                 {chapters.map((entry, index) => {
                     const value = cachedValues.get(entry.key)
                     const isLoading = loadingKeys.has(entry.key)
+                    const { content, metadata } = getTextCache(value)
                     return (
                         <MarkdownCard
                             key={entry.key}
                             id={entry.key}
                             title={entry.chapterId || getCacheTypeLabel(entry.type, t)}
                             content=""
-                            markdownContent={typeof value === 'string' ? value : ''}
+                            markdownContent={content}
+                            reasoning={metadata?.reasoning}
+                            model={metadata?.model}
+                            usage={metadata?.usage}
+                            cachedAt={metadata?.createdAt}
                             index={index}
                             defaultCollapsed={true}
                             isLoading={isLoading}
@@ -304,52 +343,67 @@ export function CacheManagementPage() {
                 })}
 
                 {/* 章节关联 */}
-                {connections && (
-                    <MarkdownCard
-                        id={connections.key}
-                        title={t('results.tabs.connections')}
-                        content=""
-                        markdownContent={typeof cachedValues.get(connections.key) === 'string' ? cachedValues.get(connections.key) as string : ''}
-                        index={chapters.length}
-                        defaultCollapsed={chapters.length > 0}
-                        isLoading={loadingKeys.has(connections.key)}
-                        showViewContent={false}
-                        showReadButton={false}
-                        onClearCache={() => confirmDelete({ key: connections!.key })}
-                    />
-                )}
+                {connections && (() => {
+                    const { content, metadata } = getTextCache(cachedValues.get(connections.key))
+                    return (
+                        <MarkdownCard
+                            id={connections.key}
+                            title={t('results.tabs.connections')}
+                            content=""
+                            markdownContent={content}
+                            model={metadata?.model}
+                            cachedAt={metadata?.createdAt}
+                            index={chapters.length}
+                            defaultCollapsed={chapters.length > 0}
+                            isLoading={loadingKeys.has(connections.key)}
+                            showViewContent={false}
+                            showReadButton={false}
+                            onClearCache={() => confirmDelete({ key: connections!.key })}
+                        />
+                    )
+                })()}
 
                 {/* 人物关系 */}
-                {characterRelationship && (
-                    <MarkdownCard
-                        id={characterRelationship.key}
-                        title={t('results.tabs.characterRelationship')}
-                        content=""
-                        markdownContent={typeof cachedValues.get(characterRelationship.key) === 'string' ? cachedValues.get(characterRelationship.key) as string : ''}
-                        index={chapters.length + (connections ? 1 : 0)}
-                        defaultCollapsed={chapters.length > 0 || !!connections}
-                        isLoading={loadingKeys.has(characterRelationship.key)}
-                        showViewContent={false}
-                        showReadButton={false}
-                        onClearCache={() => confirmDelete({ key: characterRelationship!.key })}
-                    />
-                )}
+                {characterRelationship && (() => {
+                    const { content, metadata } = getTextCache(cachedValues.get(characterRelationship.key))
+                    return (
+                        <MarkdownCard
+                            id={characterRelationship.key}
+                            title={t('results.tabs.characterRelationship')}
+                            content=""
+                            markdownContent={content}
+                            model={metadata?.model}
+                            cachedAt={metadata?.createdAt}
+                            index={chapters.length + (connections ? 1 : 0)}
+                            defaultCollapsed={chapters.length > 0 || !!connections}
+                            isLoading={loadingKeys.has(characterRelationship.key)}
+                            showViewContent={false}
+                            showReadButton={false}
+                            onClearCache={() => confirmDelete({ key: characterRelationship!.key })}
+                        />
+                    )
+                })()}
 
                 {/* 全书总结 */}
-                {overallSummary && (
-                    <MarkdownCard
-                        id={overallSummary.key}
-                        title={t('results.tabs.overallSummary')}
-                        content=""
-                        markdownContent={typeof cachedValues.get(overallSummary.key) === 'string' ? cachedValues.get(overallSummary.key) as string : ''}
-                        index={chapters.length + (connections ? 1 : 0) + (characterRelationship ? 1 : 0)}
-                        defaultCollapsed={chapters.length > 0 || !!connections || !!characterRelationship}
-                        isLoading={loadingKeys.has(overallSummary.key)}
-                        showViewContent={false}
-                        showReadButton={false}
-                        onClearCache={() => confirmDelete({ key: overallSummary!.key })}
-                    />
-                )}
+                {overallSummary && (() => {
+                    const { content, metadata } = getTextCache(cachedValues.get(overallSummary.key))
+                    return (
+                        <MarkdownCard
+                            id={overallSummary.key}
+                            title={t('results.tabs.overallSummary')}
+                            content=""
+                            markdownContent={content}
+                            model={metadata?.model}
+                            cachedAt={metadata?.createdAt}
+                            index={chapters.length + (connections ? 1 : 0) + (characterRelationship ? 1 : 0)}
+                            defaultCollapsed={chapters.length > 0 || !!connections || !!characterRelationship}
+                            isLoading={loadingKeys.has(overallSummary.key)}
+                            showViewContent={false}
+                            showReadButton={false}
+                            onClearCache={() => confirmDelete({ key: overallSummary!.key })}
+                        />
+                    )
+                })()}
             </div>
         )
     }
@@ -382,9 +436,7 @@ export function CacheManagementPage() {
                 {chapters.map((entry, index) => {
                     const value = cachedValues.get(entry.key)
                     const isLoading = loadingKeys.has(entry.key)
-                    const mindMapData = (value && typeof value === 'object' && 'nodeData' in value)
-                        ? value as MindElixirData
-                        : { nodeData: { topic: '', id: '', children: [] } }
+                    const { content: mindMapData, metadata } = getMindMapCache(value)
 
                     return (
                         <MindMapCard
@@ -393,6 +445,7 @@ export function CacheManagementPage() {
                             title={entry.chapterId || getCacheTypeLabel(entry.type, t)}
                             content=""
                             mindMapData={mindMapData}
+                            model={metadata?.model}
                             index={index}
                             isLoading={isLoading}
                             showViewContent={false}
@@ -407,9 +460,7 @@ export function CacheManagementPage() {
                 {/* 整书思维导图 */}
                 {combinedMindmap && (() => {
                     const value = cachedValues.get(combinedMindmap.key)
-                    const mindMapData = (value && typeof value === 'object' && 'nodeData' in value)
-                        ? value as MindElixirData
-                        : { nodeData: { topic: '', id: '', children: [] } }
+                    const { content: mindMapData, metadata } = getMindMapCache(value)
 
                     return (
                         <MindMapCard
@@ -417,6 +468,7 @@ export function CacheManagementPage() {
                             title={t('results.tabs.combinedMindMap')}
                             content=""
                             mindMapData={mindMapData}
+                            model={metadata?.model}
                             index={chapters.length}
                             isLoading={loadingKeys.has(combinedMindmap.key)}
                             showViewContent={false}
@@ -433,9 +485,7 @@ export function CacheManagementPage() {
                 {/* 合并思维导图 */}
                 {mergedMindmap && (() => {
                     const value = cachedValues.get(mergedMindmap.key)
-                    const mindMapData = (value && typeof value === 'object' && 'nodeData' in value)
-                        ? value as MindElixirData
-                        : { nodeData: { topic: '', id: '', children: [] } }
+                    const { content: mindMapData, metadata } = getMindMapCache(value)
 
                     return (
                         <MindMapCard
@@ -443,6 +493,7 @@ export function CacheManagementPage() {
                             title={t('cacheManagement.types.mergedMindmap')}
                             content=""
                             mindMapData={mindMapData}
+                            model={metadata?.model}
                             index={chapters.length + (combinedMindmap ? 1 : 0)}
                             isLoading={loadingKeys.has(mergedMindmap.key)}
                             showViewContent={false}
@@ -489,6 +540,9 @@ export function CacheManagementPage() {
                             <Badge variant="outline" className="shrink-0">
                                 {selectedGroup.entries.length} {t('cacheManagement.items')}
                             </Badge>
+                            {tokenUsages.has(selectedGroup.bookName) && (
+                                <TokenUsageDialog usage={tokenUsages.get(selectedGroup.bookName)!} />
+                            )}
                         </div>
                         <Button
                             variant="outline"
@@ -10,6 +10,53 @@ import { Combobox } from '@/components/ui/combobox'
 import { Brain, Plus, Pencil, Trash2, Star, ExternalLink, Copy, RefreshCw } from 'lucide-react'
 import { toast } from 'sonner'
 import { useModelStore, type AIModel } from '../stores/modelStore'
+import { AZURE_DEFAULT_API_VERSION, DEFAULT_CONTEXT_WINDOW, DEFAULT_MAX_RETRIES } from '../services/aiService'
+import { DEFAULT_CONCURRENCY } from '../services/bookProcessingService'
+
+// Model listing endpoint and auth header for each provider
+const getModelListRequest = (provider: AIModel['provider'], apiUrl: string, apiKey: string): { url: string; headers: Record<string, string> } => {
+  switch (provider) {
+    case 'anthropic':
+      return {
+        url: `${apiUrl}/models`,
+        headers: {
+          'x-api-key': apiKey,
+          'anthropic-version': '2023-06-01',
+          'anthropic-dangerous-direct-browser-access': 'true',
+        },
+      }
+    case 'gemini':
+      // Gemini uses the native API; older configs may still point at the OpenAI compatibility path
+      return {
+        url: `${apiUrl.replace(/\/openai\/?$/, '')}/models?pageSize=1000`,
+        headers: { 'x-goog-api-key': apiKey },
+      }
+    case 'azure':
+      // Deployment listing was removed from later data-plane api-versions, so pin the last one that has it
+      return {
+        url: `${apiUrl.replace(/\/openai(\/.*)?$/, '').replace(/\/+$/, '')}/openai/deployments?api-version=2022-12-01`,
+        headers: { 'api-key': apiKey },
+      }
+    default:
+      return {
+        url: `${apiUrl}/models`,
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+      }
+  }
+}
+
+const parseModelList = (provider: AIModel['provider'], data: { data?: { id: string }[]; models?: { name: string; supportedGenerationMethods?: string[] }[] }): string[] => {
+  if (provider === 'gemini') {
+    return (data.models || [])
+      .filter(model => model.supportedGenerationMethods?.includes('generateContent'))
+      .map(model => model.name.replace(/^models\//, ''))
+  }
+  // Azure deployments use the same { data: [{ id }] } shape, where id is the deployment name
+  return data.data?.map(model => model.id) || []
+}
 
 export function ModelsPage() {
   const { t } = useTranslation()
@@ -23,14 +70,21 @@ export function ModelsPage() {
     apiKey: '',
     apiUrl: '',
     model: '',
-    temperature: 0.7
+    temperature: 0.7,
+    thinkingBudget: 0,
+    apiVersion: '',
+    contextWindow: 0,
+    inputPrice: 0,
+    outputPrice: 0,
+    maxRetries: DEFAULT_MAX_RETRIES,
+    concurrency: DEFAULT_CONCURRENCY
   })
 
   const [availableModels, setAvailableModels] = useState<string[]>([])
   const [isLoadingModels, setIsLoadingModels] = useState(false)
 
-  // Fetch available models from OpenAI Compatible API
-  const fetchAvailableModels = async (params?: { apiUrl?: string; apiKey?: string; provider?: string }) => {
+  // Fetch available models (or Azure deployments) from the provider
+  const fetchAvailableModels = async (params?: { apiUrl?: string; apiKey?: string; provider?: AIModel['provider'] }) => {
     const apiUrl = params?.apiUrl ?? formData.apiUrl
     const apiKey = params?.apiKey ?? formData.apiKey
     const provider = params?.provider ?? formData.provider
@@ -40,28 +94,17 @@ export function ModelsPage() {
       return
     }
 
-    // Only fetch for openai compatible providers
-    if (!['openai', 'ollama', '302.ai', 'gemini'].includes(provider)) {
-      setAvailableModels([])
-      return
-    }
-
     setIsLoadingModels(true)
     try {
-      const response = await fetch(`${apiUrl}/models`, {
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-        },
-      })
+      const { url, headers } = getModelListRequest(provider, apiUrl, apiKey)
+      const response = await fetch(url, { headers })
 
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`)
       }
 
       const data = await response.json()
-      const models = data.data?.map((model: { id: string }) => model.id) || []
-      setAvailableModels(models)
+      setAvailableModels(parseModelList(provider, data))
     } catch (error) {
       console.error('Failed to fetch models:', error)
       setAvailableModels([])
@@ -82,7 +125,7 @@ export function ModelsPage() {
       apiKeyLabel: 'Gemini API Key',
       apiKeyPlaceholder: t('config.enterGeminiApiKey'),
       modelPlaceholder: t('config.geminiModelPlaceholder'),
-      apiUrlPlaceholder: 'https://generativelanguage.googleapis.com/v1beta/openai',
+      apiUrlPlaceholder: 'https://generativelanguage.googleapis.com/v1beta',
       url: 'https://aistudio.google.com/',
     },
     openai: {
@@ -106,6 +149,20 @@ export function ModelsPage() {
       modelPlaceholder: t('config.modelPlaceholder'),
       url: 'https://share.302.ai/BJ7iSL',
     },
+    anthropic: {
+      apiKeyLabel: 'Anthropic API Key',
+      apiKeyPlaceholder: t('config.enterAnthropicApiKey'),
+      apiUrlPlaceholder: 'https://api.anthropic.com/v1',
+      modelPlaceholder: t('config.anthropicModelPlaceholder'),
+      url: 'https://console.anthropic.com/',
+    },
+    azure: {
+      apiKeyLabel: 'Azure OpenAI API Key',
+      apiKeyPlaceholder: t('config.enterAzureApiKey'),
+      apiUrlPlaceholder: 'https://your-resource.openai.azure.com',
+      modelPlaceholder: t('config.azureDeploymentPlaceholder'),
+      url: 'https://portal.azure.com/',
+    },
   }
 
   const handleOpenDialog = (model?: AIModel) => {
@@ -117,7 +174,14 @@ export function ModelsPage() {
         apiKey: model.apiKey,
         apiUrl: model.apiUrl,
         model: model.model,
-        temperature: model.temperature
+        temperature: model.temperature,
+        thinkingBudget: model.thinkingBudget || 0,
+        apiVersion: model.apiVersion || '',
+        contextWindow: model.contextWindow || 0,
+        inputPrice: model.inputPrice || 0,
+        outputPrice: model.outputPrice || 0,
+        maxRetries: model.maxRetries ?? DEFAULT_MAX_RETRIES,
+        concurrency: model.concurrency || DEFAULT_CONCURRENCY
       }
       setFormData(newFormData)
       fetchAvailableModels(newFormData)
@@ -127,9 +191,16 @@ export function ModelsPage() {
         name: '',
         provider: 'gemini',
         apiKey: '',
-        apiUrl: 'https://generativelanguage.googleapis.com/v1beta/openai',
+        apiUrl: 'https://generativelanguage.googleapis.com/v1beta',
         model: 'gemini-1.5-flash',
-        temperature: 0.7
+        temperature: 0.7,
+        thinkingBudget: 0,
+        apiVersion: '',
+        contextWindow: 0,
+        inputPrice: 0,
+        outputPrice: 0,
+        maxRetries: DEFAULT_MAX_RETRIES,
+        concurrency: DEFAULT_CONCURRENCY
       }
       setFormData(newFormData)
       fetchAvailableModels(newFormData)
@@ -148,6 +219,11 @@ export function ModelsPage() {
       return
     }
 
+    if (formData.provider === 'azure' && (!formData.apiUrl.trim() || !formData.model.trim())) {
+      toast.error(t('models.azureFieldsRequired'))
+      return
+    }
+
     // Check for duplicate names (excluding the current editing model)
     const isDuplicate = models.some(
       model => model.name.trim() === formData.name.trim() && model.id !== editingModel?.id
@@ -199,7 +275,14 @@ export function ModelsPage() {
       apiKey: model.apiKey,
       apiUrl: model.apiUrl,
       model: model.model,
-      temperature: model.temperature
+      temperature: model.temperature,
+      thinkingBudget: model.thinkingBudget || 0,
+      apiVersion: model.apiVersion || '',
+      contextWindow: model.contextWindow || 0,
+      inputPrice: model.inputPrice || 0,
+      outputPrice: model.outputPrice || 0,
+      maxRetries: model.maxRetries ?? DEFAULT_MAX_RETRIES,
+      concurrency: model.concurrency || DEFAULT_CONCURRENCY
     })
     setIsDialogOpen(true)
   }
@@ -238,15 +321,18 @@ export function ModelsPage() {
                       value={formData.provider}
                       onValueChange={(value: AIModel['provider']) => {
                         const defaultApiUrls: Record<AIModel['provider'], string> = {
-                          'gemini': 'https://generativelanguage.googleapis.com/v1beta/openai',
+                          'gemini': 'https://generativelanguage.googleapis.com/v1beta',
                           'openai': 'https://api.openai.com/v1',
                           'ollama': 'http://localhost:11434/v1',
-                          '302.ai': 'https://api.302.ai/v1'
+                          '302.ai': 'https://api.302.ai/v1',
+                          'anthropic': 'https://api.anthropic.com/v1',
+                          'azure': ''
                         }
                         const newFormData = {
                           ...formData,
                           provider: value,
-                          apiUrl: defaultApiUrls[value]
+                          apiUrl: defaultApiUrls[value],
+                          apiVersion: value === 'azure' ? (formData.apiVersion || AZURE_DEFAULT_API_VERSION) : ''
                         }
                         setFormData(newFormData)
                         fetchAvailableModels(newFormData)
@@ -260,6 +346,8 @@ export function ModelsPage() {
                         <SelectItem value="openai">{t('config.openaiCompatible')}</SelectItem>
                         <SelectItem value="ollama">Ollama</SelectItem>
                         <SelectItem value="302.ai">302.AI</SelectItem>
+                        <SelectItem value="anthropic">Anthropic Claude</SelectItem>
+                        <SelectItem value="azure">Azure OpenAI</SelectItem>
                       </SelectContent>
                     </Select>
                     <Button variant="link" className="p-0 h-auto text-xs" asChild>
@@ -294,9 +382,9 @@ export function ModelsPage() {
                   />
                 </div>
 
-                {(formData.provider === 'openai' || formData.provider === 'ollama' || formData.provider === '302.ai' || formData.provider === 'gemini') && (
+                {(formData.provider === 'openai' || formData.provider === 'ollama' || formData.provider === '302.ai' || formData.provider === 'gemini' || formData.provider === 'anthropic' || formData.provider === 'azure') && (
                   <div className="space-y-2">
-                    <Label htmlFor="api-url">{t('config.apiUrl')}</Label>
+                    <Label htmlFor="api-url">{formData.provider === 'azure' ? t('models.azureEndpoint') : t('config.apiUrl')}</Label>
                     <Input
                       id="api-url"
                       type="url"
@@ -313,7 +401,7 @@ export function ModelsPage() {
                 )}
 
                 <div className="space-y-2">
-                  <Label htmlFor="model-id">{t('models.modelId')}</Label>
+                  <Label htmlFor="model-id">{formData.provider === 'azure' ? t('models.deploymentName') : t('models.modelId')}</Label>
                   <div className="flex gap-2">
                     <div className="flex-1">
                       <Combobox
@@ -355,6 +443,105 @@ export function ModelsPage() {
                   />
                   <p className="text-xs text-gray-600">{t('config.temperatureDescription')}</p>
                 </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="context-window">{t('models.contextWindow')}</Label>
+                  <Input
+                    id="context-window"
+                    type="number"
+                    min="0"
+                    step="1000"
+                    placeholder={String(DEFAULT_CONTEXT_WINDOW)}
+                    value={formData.contextWindow || ''}
+                    onChange={(e) => setFormData({ ...formData, contextWindow: Math.max(0, parseInt(e.target.value) || 0) })}
+                  />
+                  <p className="text-xs text-gray-600">{t('models.contextWindowDescription')}</p>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="input-price">{t('models.inputPrice')}</Label>
+                    <Input
+                      id="input-price"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder="0"
+                      value={formData.inputPrice || ''}
+                      onChange={(e) => setFormData({ ...formData, inputPrice: Math.max(0, parseFloat(e.target.value) || 0) })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="output-price">{t('models.outputPrice')}</Label>
+                    <Input
+                      id="output-price"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder="0"
+                      value={formData.outputPrice || ''}
+                      onChange={(e) => setFormData({ ...formData, outputPrice: Math.max(0, parseFloat(e.target.value) || 0) })}
+                    />
+                  </div>
+                  <p className="col-span-2 text-xs text-gray-600">{t('models.priceDescription')}</p>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="max-retries">{t('models.maxRetries')}</Label>
+                    <Input
+                      id="max-retries"
+                      type="number"
+                      min="0"
+                      max="10"
+                      step="1"
+                      value={formData.maxRetries}
+                      onChange={(e) => setFormData({ ...formData, maxRetries: Math.min(10, Math.max(0, parseInt(e.target.value) || 0)) })}
+                    />
+                    <p className="text-xs text-gray-600">{t('models.maxRetriesDescription')}</p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="concurrency">{t('models.concurrency')}</Label>
+                    <Input
+                      id="concurrency"
+                      type="number"
+                      min="1"
+                      max="20"
+                      step="1"
+                      value={formData.concurrency}
+                      onChange={(e) => setFormData({ ...formData, concurrency: Math.min(20, Math.max(1, parseInt(e.target.value) || 1)) })}
+                    />
+                    <p className="text-xs text-gray-600">{t('models.concurrencyDescription')}</p>
+                  </div>
+                </div>
+
+                {formData.provider === 'azure' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="api-version">{t('models.apiVersion')}</Label>
+                    <Input
+                      id="api-version"
+                      placeholder={AZURE_DEFAULT_API_VERSION}
+                      value={formData.apiVersion}
+                      onChange={(e) => setFormData({ ...formData, apiVersion: e.target.value.trim() })}
+                    />
+                    <p className="text-xs text-gray-600">{t('models.apiVersionDescription')}</p>
+                  </div>
+                )}
+
+                {formData.provider === 'anthropic' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="thinking-budget">{t('models.thinkingBudget')}</Label>
+                    <Input
+                      id="thinking-budget"
+                      type="number"
+                      min="0"
+                      step="1024"
+                      value={formData.thinkingBudget}
+                      onChange={(e) => setFormData({ ...formData, thinkingBudget: Math.max(0, parseInt(e.target.value) || 0) })}
+                    />
+                    <p className="text-xs text-gray-600">{t('models.thinkingBudgetDescription')}</p>
+                  </div>
+                )}
               </div>
 
               <DialogFooter>
@@ -403,6 +590,8 @@ export function ModelsPage() {
                           {model.provider === 'openai' && t('config.openaiCompatible')}
                           {model.provider === 'ollama' && 'Ollama'}
                           {model.provider === '302.ai' && '302.AI'}
+                          {model.provider === 'anthropic' && 'Anthropic Claude'}
+                          {model.provider === 'azure' && 'Azure OpenAI'}
                         </span>
                       </div>
                       <div className="flex gap-1 flex-shrink-0">
@@ -17,10 +17,12 @@ export function SettingsPage() {
     setBookType,
     setSkipNonEssentialChapters,
     setOutputLanguage,
-    setForceUseSpine
+    setForceUseSpine,
+    setRemoveHeadersFooters,
+    setIncludeNotes
   } = useConfigStore()
 
-  const { processingMode, bookType, skipNonEssentialChapters, outputLanguage, forceUseSpine } = processingOptions
+  const { processingMode, bookType, skipNonEssentialChapters, outputLanguage, forceUseSpine, removeHeadersFooters, includeNotes } = processingOptions
 
   const handleExportConfig = () => {
     const config = {
@@ -198,6 +200,34 @@ export function SettingsPage() {
               />
             </div>
 
+            <div className="flex items-center justify-between p-5 bg-white rounded-xl border border-gray-200">
+              <div className="space-y-0.5">
+                <Label htmlFor="include-notes" className="text-sm font-medium text-gray-900">
+                  {t('config.includeNotes')}
+                </Label>
+                <p className="text-xs text-gray-500">{t('config.includeNotesDescription')}</p>
+              </div>
+              <Switch
+                id="include-notes"
+                checked={includeNotes}
+                onCheckedChange={setIncludeNotes}
+              />
+            </div>
+
+            <div className="flex items-center justify-between p-5 bg-white rounded-xl border border-gray-200">
+              <div className="space-y-0.5">
+                <Label htmlFor="remove-headers-footers" className="text-sm font-medium text-gray-900">
+                  {t('config.removeHeadersFooters')}
+                </Label>
+                <p className="text-xs text-gray-500">{t('config.removeHeadersFootersDescription')}</p>
+              </div>
+              <Switch
+                id="remove-headers-footers"
+                checked={removeHeadersFooters}
+                onCheckedChange={setRemoveHeadersFooters}
+              />
+            </div>
+
             <div className="p-5 bg-white rounded-xl border border-gray-200">
               <div className="space-y-3">
                 <Label htmlFor="max-sub-chapter-depth" className="text-sm font-medium text-gray-900">
@@ -1,17 +1,15 @@
-import { useState, useCallback, useRef } from 'react'
+import { useState, useCallback, useRef, useEffect } from 'react'
 import { useTranslation } from 'react-i18next'
-import { type ChapterData, type BookData as EpubBookData } from '@/services/epubProcessor'
-import { type BookData as PdfBookData } from '@/services/pdfProcessor'
-import { AIService } from '../services/aiService'
-import { CacheService } from '../services/cacheService'
-import { BookProcessingService, type Chapter, type ChapterGroup } from '../services/bookProcessingService'
+import { getBookFormatHandler, type BookData, type ChapterData } from '@/services/bookFormat'
+import { AIService, type AITaskType, type RetryInfo } from '../services/aiService'
+import { CacheService, type BookTokenUsage } from '../services/cacheService'
+import { BookProcessingService, DEFAULT_CONCURRENCY, type Chapter, type ChapterGroup, type ChunkProgress } from '../services/bookProcessingService'
 import type { MindElixirData, Options } from 'mind-elixir'
-import { EpubReader } from '../components/EpubReader'
-import { PdfReader } from '../components/PdfReader'
 import { Step1Config } from '../components/Step1Config'
 import { Step2Results } from '../components/Step2Results'
 import { toast } from 'sonner'
 import { useConfigStore } from '../stores/configStore'
+import { useModelStore, type AIModel } from '../stores/modelStore'
 
 const options = { direction: 1, alignment: 'nodes', editable: false, draggable:false } as Options
 
@@ -24,6 +22,9 @@ interface BookSummary {
   overallSummary: string
   connectionsLoading?: boolean
   overallSummaryLoading?: boolean
+  connectionsModel?: string
+  characterRelationshipModel?: string
+  overallSummaryModel?: string
 }
 
 interface BookMindMap {
@@ -31,10 +32,34 @@ interface BookMindMap {
   author: string
   groups: ChapterGroup[]
   combinedMindMap: MindElixirData | null
+  combinedMindMapModel?: string
+  combinedMindMapLoading?: boolean
 }
 
+type ModelConfig = Omit<AIModel, 'id' | 'name' | 'isDefault'>
+
+const toAIServiceConfig = (config: ModelConfig) => ({
+  provider: config.provider,
+  apiKey: config.apiKey,
+  apiUrl: config.apiUrl,
+  model: config.model || undefined,
+  temperature: config.temperature,
+  thinkingBudget: config.thinkingBudget,
+  apiVersion: config.apiVersion,
+  contextWindow: config.contextWindow,
+  maxRetries: config.maxRetries,
+  inputPrice: config.inputPrice,
+  outputPrice: config.outputPrice
+})
+
+const isSameModel = (a: ModelConfig, b: ModelConfig) =>
+  a.provider === b.provider && a.apiUrl === b.apiUrl && a.model === b.model
+
 const cacheService = new CacheService()
 
+// 整书步骤的分块进度键，章节组使用各自的 groupId
+const BOOK_CHUNK_PROGRESS_KEY = 'book'
+
 export function SummaryPage() {
   const { t } = useTranslation()
   const [currentStepIndex, setCurrentStepIndex] = useState(1)
@@ -42,12 +67,17 @@ export function SummaryPage() {
   const [processing, setProcessing] = useState(false)
   const [progress, setProgress] = useState(0)
   const [currentStep, setCurrentStep] = useState('')
+  // 多个组并发处理时各自分块，按组分别记录分块进度
+  const [chunkProgress, setChunkProgress] = useState<Map<string, ChunkProgress>>(new Map())
+  // 各组及整书步骤的请求分别重试，按组的 groupId 或整书步骤的任务类型记录重试状态
+  const [retryInfo, setRetryInfo] = useState<Map<string, RetryInfo>>(new Map())
   const [error, setError] = useState<string | null>(null)
   const [bookSummary, setBookSummary] = useState<BookSummary | null>(null)
   const [bookMindMap, setBookMindMap] = useState<BookMindMap | null>(null)
+  const [tokenUsage, setTokenUsage] = useState<BookTokenUsage | null>(null)
   const [extractedChapters, setExtractedChapters] = useState<ChapterData[] | null>(null)
   const [bookData, setBookData] = useState<{ title: string; author: string } | null>(null)
-  const [fullBookData, setFullBookData] = useState<EpubBookData | PdfBookData | null>(null)
+  const [fullBookData, setFullBookData] = useState<BookData | null>(null)
   const [readingChapterId, setReadingChapterId] = useState<string | null>(null)
   const [readingChapterIds, setReadingChapterIds] = useState<string[]>([])
   const [retryParams, setRetryParams] = useState<{
@@ -57,11 +87,20 @@ export function SummaryPage() {
     useCustomOnly: boolean
   } | null>(null)
   const abortControllerRef = useRef<AbortController | null>(null)
+  // 上次处理各组的结果，用于只重试失败的组
+  const groupResultsRef = useRef<Map<string, { group: ChapterGroup; chapters: Chapter[] }>>(new Map())
 
   const configStore = useConfigStore()
   const { apiKey } = configStore.aiConfig
   const { processingMode, bookType } = configStore.processingOptions
 
+  // 重新解析、更换文件或离开页面时释放上一份书籍数据占用的资源
+  useEffect(() => {
+    if (!file || !fullBookData) return
+    const formatHandler = getBookFormatHandler(file)
+    return () => formatHandler?.release?.(fullBookData)
+  }, [file, fullBookData])
+
   const handleFileChange = useCallback((selectedFile: File | null) => {
     setFile(selectedFile)
     setExtractedChapters(null)
@@ -69,6 +108,7 @@ export function SummaryPage() {
     setFullBookData(null)
     setBookSummary(null)
     setBookMindMap(null)
+    setTokenUsage(null)
     setReadingChapterId(null)
     setReadingChapterIds([])
   }, [])
@@ -124,7 +164,7 @@ export function SummaryPage() {
     setRetryParams(null)
   }, [])
 
-  const handleStartProcessing = useCallback(async (selectedChapters: Set<string>, chapterTags: Map<string, string>, customPrompt: string, useCustomOnly: boolean) => {
+  const handleStartProcessing = useCallback(async (selectedChapters: Set<string>, chapterTags: Map<string, string>, customPrompt: string, useCustomOnly: boolean, retryGroupIds?: Set<string>) => {
     if (!extractedChapters || !bookData || !apiKey) {
       toast.error(t('chapters.extractAndApiKey'), {
         duration: 3000,
@@ -150,40 +190,91 @@ export function SummaryPage() {
     })
 
     setCurrentStepIndex(2)
-    setBookSummary(null)
-    setBookMindMap(null)
+    if (!retryGroupIds) {
+      setBookSummary(null)
+      setBookMindMap(null)
+      groupResultsRef.current = new Map()
+    }
     setProcessing(true)
     setProgress(0)
     setCurrentStep('')
+    setChunkProgress(new Map())
+    setRetryInfo(new Map())
     setError(null)
 
     abortControllerRef.current = new AbortController()
     const abortSignal = abortControllerRef.current.signal
 
     try {
-      const aiService = new AIService(() => {
-        const currentState = useConfigStore.getState()
-        const currentAiConfig = currentState.aiConfig
-        return {
-          provider: currentAiConfig.provider,
-          apiKey: currentAiConfig.apiKey,
-          apiUrl: currentAiConfig.apiUrl,
-          model: currentAiConfig.model || undefined,
-          temperature: currentAiConfig.temperature
+      setTokenUsage(await cacheService.getTokenUsage(file.name))
+
+      const updateRetryInfo = (key: string) => (info: RetryInfo | null) => {
+        setRetryInfo(prev => {
+          if (!info && !prev.has(key)) return prev
+          const next = new Map(prev)
+          if (info) {
+            next.set(key, info)
+          } else {
+            next.delete(key)
+          }
+          return next
+        })
+      }
+
+      // 每种任务使用单独的 AIService，未指定模型的任务使用当前选择的模型
+      // 章节组并发处理，每个组再使用单独的实例，使重试提示能对应到具体的组
+      const aiServices = new Map<string, AIService>()
+      const getAIService = (task: AITaskType, groupId?: string) => {
+        const retryKey = groupId ?? task
+        let aiService = aiServices.get(`${task}|${retryKey}`)
+        if (!aiService) {
+          const getTaskConfig = () => useModelStore.getState().getTaskModel(task) ?? useConfigStore.getState().aiConfig
+          aiService = new AIService(() => toAIServiceConfig(getTaskConfig()), {
+            onRetry: updateRetryInfo(retryKey),
+            // 备用模型中跳过当前任务正在使用的模型
+            fallbackConfigs: () => {
+              const currentConfig = getTaskConfig()
+              return useModelStore.getState().getFallbackModels()
+                .filter(model => !isSameModel(model, currentConfig))
+                .map(toAIServiceConfig)
+            },
+            onFallback: ({ from, to }) => {
+              toast.warning(t('progress.fallback', { from, to }), {
+                duration: 5000,
+                position: 'top-center',
+              })
+            },
+            // 按任务类型累计本书的实际用量
+            onUsage: ({ usage, cost }) => {
+              cacheService.addTokenUsage(file.name, task, usage, cost).then(setTokenUsage).catch(console.error)
+            }
+          })
+          aiServices.set(`${task}|${retryKey}`, aiService)
         }
-      })
+        return aiService
+      }
 
-      const bookProcessingService = new BookProcessingService(aiService, cacheService)
+      const bookProcessingService = new BookProcessingService(task => getAIService(task), cacheService)
+      const updateChunkProgress = (id: string) => (progress: ChunkProgress | null) => {
+        setChunkProgress(prev => {
+          const next = new Map(prev)
+          if (progress) {
+            next.set(id, progress)
+          } else {
+            next.delete(id)
+          }
+          return next
+        })
+      }
       const chapters = extractedChapters.filter(chapter => selectedChapters.has(chapter.id))
       const groups = bookProcessingService.groupChaptersByTag(chapters, chapterTags)
 
-      console.log('groups', groups)
-
       const totalGroups = groups.length
       const processedGroups: ChapterGroup[] = []
       const processedChapters: Chapter[] = []
 
-      if (processingMode === 'summary') {
+      // 只重试失败的组时保留已有结果，失败的组在处理时原位替换
+      if (!retryGroupIds && processingMode === 'summary') {
         setBookSummary({
           title: bookData.title,
           author: bookData.author,
@@ -192,7 +283,7 @@ export function SummaryPage() {
           characterRelationship: '',
           overallSummary: ''
         })
-      } else if (processingMode === 'mindmap' || processingMode === 'combined-mindmap') {
+      } else if (!retryGroupIds && (processingMode === 'mindmap' || processingMode === 'combined-mindmap')) {
         setBookMindMap({
           title: bookData.title,
           author: bookData.author,
@@ -201,10 +292,38 @@ export function SummaryPage() {
         })
       }
 
-      for (let groupIndex = 0; groupIndex < groups.length; groupIndex++) {
-        const group = groups[groupIndex]
+      // 组按顺序开始处理，开始时追加加载中的组即可保持顺序，完成后按 groupId 原位替换
+      const replaceGroup = (groups: ChapterGroup[], processedGroup: ChapterGroup) =>
+        groups.map(g => g.groupId === processedGroup.groupId ? processedGroup : g)
+      const upsertGroup = (groups: ChapterGroup[], processedGroup: ChapterGroup) =>
+        groups.some(g => g.groupId === processedGroup.groupId)
+          ? replaceGroup(groups, processedGroup)
+          : [...groups, processedGroup]
+      const updateGroups = (update: (groups: ChapterGroup[]) => ChapterGroup[]) => {
+        if (processingMode === 'summary') {
+          setBookSummary(prevSummary => ({ ...prevSummary!, groups: update(prevSummary!.groups) }))
+        } else {
+          setBookMindMap(prevMindMap => ({ ...prevMindMap!, groups: update(prevMindMap!.groups) }))
+        }
+      }
+
+      let completedGroups = 0
+      // 并发数跟随处理章节组的模型
+      const groupTask: AITaskType = processingMode === 'summary' ? 'chapterSummary' : 'chapterMindMap'
+      const groupModelConfig = useModelStore.getState().getTaskModel(groupTask) ?? useConfigStore.getState().aiConfig
+      const concurrency = groupModelConfig.concurrency || DEFAULT_CONCURRENCY
+
+      const results = await bookProcessingService.processGroupsConcurrently(groups, concurrency, abortSignal, async (group, groupIndex, groupAbortSignal) => {
         const groupChapters = group.chapters
 
+        // 只重试失败的组时，成功的组沿用上次的结果
+        const previousResult = groupResultsRef.current.get(group.groupId)
+        if (retryGroupIds && !retryGroupIds.has(group.groupId) && previousResult) {
+          completedGroups++
+          setProgress(20 + completedGroups / totalGroups * 60)
+          return previousResult
+        }
+
         if (group.tag) {
           setCurrentStep(`正在处理标签组 "${group.tag}" (${groupIndex + 1}/${totalGroups})，包含 ${groupChapters.length} 个章节`)
         } else {
@@ -218,93 +337,95 @@ export function SummaryPage() {
           chapterTitles: groupChapters.map(ch => ch.title),
           isLoading: true
         }
-
-        if (processingMode === 'summary') {
-          setBookSummary(prevSummary => ({
-            ...prevSummary!,
-            groups: [...(prevSummary?.groups || []), loadingGroup]
-          }))
-
-          const result = await bookProcessingService.processSummaryGroup(
-            group,
-            file.name,
-            bookType,
-            configStore.processingOptions.outputLanguage,
-            customPrompt,
-            useCustomOnly,
-            abortSignal,
-            (data) => {
-              setBookSummary(prevSummary => {
-                if (!prevSummary) return null
-                const newGroups = [...prevSummary.groups]
-                const targetGroupIndex = newGroups.findIndex(g => g.groupId === group.groupId)
-                if (targetGroupIndex !== -1) {
-                  newGroups[targetGroupIndex] = {
-                    ...newGroups[targetGroupIndex],
-                    summary: data.summary,
-                    reasoning: data.reasoning
+        updateGroups(groups => upsertGroup(groups, loadingGroup))
+
+        const groupProcessingService = new BookProcessingService(task => getAIService(task, group.groupId), cacheService)
+        let result: { group: ChapterGroup; chapters: Chapter[] }
+        try {
+          if (processingMode === 'summary') {
+            result = await groupProcessingService.processSummaryGroup(
+              group,
+              file.name,
+              bookType,
+              configStore.processingOptions.outputLanguage,
+              customPrompt,
+              useCustomOnly,
+              groupAbortSignal,
+              (data) => {
+                setBookSummary(prevSummary => {
+                  if (!prevSummary) return null
+                  const newGroups = [...prevSummary.groups]
+                  const targetGroupIndex = newGroups.findIndex(g => g.groupId === group.groupId)
+                  if (targetGroupIndex !== -1) {
+                    newGroups[targetGroupIndex] = {
+                      ...newGroups[targetGroupIndex],
+                      summary: data.summary,
+                      reasoning: data.reasoning
+                    }
                   }
-                }
-                return {
-                  ...prevSummary,
-                  groups: newGroups
-                }
-              })
+                  return {
+                    ...prevSummary,
+                    groups: newGroups
+                  }
+                })
+              },
+              updateChunkProgress(group.groupId)
+            )
+          } else if (processingMode === 'mindmap') {
+            result = await groupProcessingService.processMindMapGroup(
+              group,
+              file.name,
+              configStore.processingOptions.outputLanguage,
+              customPrompt,
+              groupAbortSignal,
+              updateChunkProgress(group.groupId),
+              (data) => {
+                updateGroups(groups => replaceGroup(groups, { ...loadingGroup, mindMap: data.mindMap }))
+              }
+            )
+          } else {
+            // 整书思维导图模式下各组不单独请求AI
+            result = {
+              group: { ...loadingGroup, isLoading: false },
+              chapters: groupChapters.map(chapter => ({
+                ...chapter,
+                isLoading: false
+              }))
             }
-          )
-
-          processedGroups.push(result.group)
-          processedChapters.push(...result.chapters)
-
-          setBookSummary(prevSummary => ({
-            ...prevSummary!,
-            groups: [...processedGroups]
-          }))
-        } else if (processingMode === 'mindmap') {
-          setBookMindMap(prevMindMap => ({
-            ...prevMindMap!,
-            groups: [...(prevMindMap?.groups || []), loadingGroup]
-          }))
-
-          const result = await bookProcessingService.processMindMapGroup(
-            group,
-            file.name,
-            configStore.processingOptions.outputLanguage,
-            customPrompt,
-            abortSignal
-          )
-
-          processedGroups.push(result.group)
-          processedChapters.push(...result.chapters)
-
-          setBookMindMap(prevMindMap => ({
-            ...prevMindMap!,
-            groups: [...processedGroups]
-          }))
-        } else if (processingMode === 'combined-mindmap') {
-          const processedGroup: ChapterGroup = {
-            groupId: group.groupId,
-            tag: group.tag,
-            chapterIds: groupChapters.map(ch => ch.id),
-            chapterTitles: groupChapters.map(ch => ch.title),
-            isLoading: false
           }
-          processedGroups.push(processedGroup)
-
-          for (const chapter of groupChapters) {
-            processedChapters.push({
-              ...chapter,
-              isLoading: false
-            })
+        } catch (err) {
+          // 取消时中止整个处理；其他错误只标记该组失败，继续处理其余的组
+          if (groupAbortSignal.aborted) throw err
+          console.error(`❌ [DEBUG] 组处理失败: ${group.tag || groupChapters[0].title}`, err)
+          result = {
+            group: {
+              ...loadingGroup,
+              isLoading: false,
+              error: err instanceof Error ? err.message : t('progress.processingError')
+            },
+            chapters: []
           }
-
-          setBookMindMap(prevMindMap => ({
-            ...prevMindMap!,
-            groups: [...processedGroups]
-          }))
         }
 
-        setProgress(20 + (groupIndex + 1) / totalGroups * 60)
+        // 失败的组不会报告分块结束，统一在组处理完后清除其分块进度
+        updateChunkProgress(group.groupId)(null)
+        groupResultsRef.current.set(group.groupId, result)
+        updateGroups(groups => replaceGroup(groups, result.group))
+
+        completedGroups++
+        setProgress(20 + completedGroups / totalGroups * 60)
+        return result
+      })
+
+      // 后续整书步骤按章节顺序使用成功的组的结果
+      for (const result of results) {
+        processedGroups.push(result.group)
+        processedChapters.push(...result.chapters)
+      }
+
+      const failedGroupCount = processedGroups.filter(group => group.error).length
+      if (failedGroupCount === processedGroups.length) {
+        throw new Error(t('results.allGroupsFailed'))
       }
 
       if (processingMode === 'summary') {
@@ -334,7 +455,8 @@ export function SummaryPage() {
 
         setBookSummary(prevSummary => ({
           ...prevSummary!,
-          connections,
+          connections: connections.content,
+          connectionsModel: connections.model,
           connectionsLoading: false
         }))
         setProgress(80)
@@ -351,7 +473,8 @@ export function SummaryPage() {
 
           setBookSummary(prevSummary => ({
             ...prevSummary!,
-            characterRelationship
+            characterRelationship: characterRelationship.content,
+            characterRelationshipModel: characterRelationship.model
           }))
         }
         setProgress(90)
@@ -383,7 +506,8 @@ export function SummaryPage() {
 
         setBookSummary(prevSummary => ({
           ...prevSummary!,
-          overallSummary,
+          overallSummary: overallSummary.content,
+          overallSummaryModel: overallSummary.model,
           overallSummaryLoading: false
         }))
       } else if (processingMode === 'mindmap') {
@@ -406,18 +530,49 @@ export function SummaryPage() {
           bookData.title,
           processedChapters,
           customPrompt,
-          abortSignal
+          abortSignal,
+          updateChunkProgress(BOOK_CHUNK_PROGRESS_KEY),
+          (data) => {
+            setBookMindMap(prevMindMap => ({
+              ...prevMindMap!,
+              combinedMindMap: data.mindMap,
+              combinedMindMapLoading: true
+            }))
+          }
         )
 
         setBookMindMap(prevMindMap => ({
           ...prevMindMap!,
-          combinedMindMap
+          combinedMindMap: combinedMindMap.mindMap,
+          combinedMindMapModel: combinedMindMap.model,
+          combinedMindMapLoading: false
         }))
         setProgress(85)
       }
 
+      // 有组失败时整书结果只基于部分章节，本次展示后立即清除缓存，下次处理时重新生成
+      // （组的章节变化时缓存本身也会失效，见 BookProcessingService 中的 getBookLevelCache）
+      if (failedGroupCount > 0) {
+        const bookLevelCacheTypes = {
+          'summary': ['connections', 'character_relationship', 'overall_summary'],
+          'mindmap': ['merged_mindmap'],
+          'combined-mindmap': ['combined_mindmap']
+        } as const
+        for (const cacheType of bookLevelCacheTypes[processingMode]) {
+          await cacheService.clearSpecificCache(file.name, cacheType)
+        }
+      }
+
       setProgress(100)
-      setCurrentStep('处理完成！')
+      if (failedGroupCount > 0) {
+        setCurrentStep(`处理完成，${failedGroupCount} 个组失败`)
+        toast.warning(t('results.failedGroups', { count: failedGroupCount }), {
+          duration: 5000,
+          position: 'top-center',
+        })
+      } else {
+        setCurrentStep('处理完成！')
+      }
     } catch (err) {
       if (err instanceof Error && err.name === 'AbortError') {
         console.log(t('common.generationCancelled'))
@@ -431,6 +586,8 @@ export function SummaryPage() {
       })
     } finally {
       setProcessing(false)
+      setChunkProgress(new Map())
+      setRetryInfo(new Map())
       if (abortControllerRef.current) {
         abortControllerRef.current = null
       }
@@ -455,6 +612,25 @@ export function SummaryPage() {
     )
   }, [retryParams, handleStartProcessing])
 
+  const handleRetryFailedGroups = useCallback(() => {
+    if (!retryParams) return
+
+    const failedGroupIds = new Set(
+      Array.from(groupResultsRef.current.values())
+        .filter(result => result.group.error)
+        .map(result => result.group.groupId)
+    )
+    if (failedGroupIds.size === 0) return
+
+    handleStartProcessing(
+      retryParams.selectedChapters,
+      retryParams.chapterTags,
+      retryParams.customPrompt,
+      retryParams.useCustomOnly,
+      failedGroupIds
+    )
+  }, [retryParams, handleStartProcessing])
+
   const hasReader = readingChapterId && file && extractedChapters
 
   return (
@@ -491,9 +667,12 @@ export function SummaryPage() {
               processing={processing}
               progress={progress}
               currentStep={currentStep}
+              chunkProgress={chunkProgress}
+              retryInfo={retryInfo}
               error={error}
               bookSummary={bookSummary}
               bookMindMap={bookMindMap}
+              tokenUsage={tokenUsage}
               processingMode={processingMode}
               extractedChapters={extractedChapters}
               onBackToConfig={handleBackToConfig}
@@ -501,6 +680,7 @@ export function SummaryPage() {
               onClearSpecificCache={clearSpecificCache}
               onReadChapter={handleReadChapter}
               onRetry={error && retryParams ? handleRetry : undefined}
+              onRetryFailedGroups={retryParams ? handleRetryFailedGroups : undefined}
               mindElixirOptions={options}
             />
           )}
@@ -521,31 +701,17 @@ export function SummaryPage() {
         `}
       >
         {hasReader && (
-          file.name.endsWith('.epub') ? (
-            <EpubReader
-              className="w-full h-full"
-              initialChapterId={readingChapterId}
-              chapterIds={readingChapterIds}
-              chapters={extractedChapters}
-              bookData={fullBookData as EpubBookData || undefined}
-              onClose={() => {
-                setReadingChapterId(null)
-                setReadingChapterIds([])
-              }}
-            />
-          ) : file.name.endsWith('.pdf') ? (
-            <PdfReader
-              className="w-full h-full"
-              initialChapterId={readingChapterId}
-              chapterIds={readingChapterIds}
-              chapters={extractedChapters}
-              bookData={fullBookData as PdfBookData || undefined}
-              onClose={() => {
-                setReadingChapterId(null)
-                setReadingChapterIds([])
-              }}
-            />
-          ) : null
+          getBookFormatHandler(file)?.renderReader({
+            className: 'w-full h-full',
+            initialChapterId: readingChapterId,
+            chapterIds: readingChapterIds,
+            chapters: extractedChapters,
+            bookData: fullBookData || undefined,
+            onClose: () => {
+              setReadingChapterId(null)
+              setReadingChapterIds([])
+            }
+          })
         )}
       </div>
     </div>
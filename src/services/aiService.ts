@@ -1,6 +1,7 @@
 import {
   getFictionChapterSummaryPrompt,
   getNonFictionChapterSummaryPrompt,
+  getChunkSummaryMergePrompt,
   getChapterConnectionsAnalysisPrompt,
   getFictionChapterConnectionsAnalysisPrompt,
   getOverallSummaryPrompt,
@@ -8,11 +9,18 @@ import {
   getTestConnectionPrompt,
   getChapterMindMapPrompt,
   getMindMapArrowPrompt,
+  getMindMapFixPrompt,
   getCharacterRelationshipPrompt,
   getFictionCharacterRelationshipPrompt,
+  getMermaidFixPrompt,
+  getChapterMindMapSchema,
+  type ResponseSchema,
 } from './prompts'
 import type { MindElixirData } from 'mind-elixir'
 import { getLanguageInstruction, type SupportedLanguage } from './prompts/utils'
+import { parsePartialMindMap, repairJson, validateMindMap, type MindMapValidationResult } from '../utils/mindMapValidator'
+import { extractMermaidCode, validateMermaid } from '../utils/mermaidValidator'
+import { calculateCost } from '../utils/tokenEstimator'
 
 interface Chapter {
   id: string
@@ -23,25 +31,144 @@ interface Chapter {
 }
 
 interface AIConfig {
-  provider: 'gemini' | 'openai' | 'ollama' | '302.ai'
+  provider: 'gemini' | 'openai' | 'ollama' | '302.ai' | 'anthropic' | 'azure'
   apiKey: string
   apiUrl?: string // 用于OpenAI兼容的API地址
-  model?: string
+  model?: string // Azure 为部署名称
   temperature?: number
+  thinkingBudget?: number // Anthropic extended thinking 的 token 预算，0 表示不开启
+  apiVersion?: string // Azure OpenAI 的 api-version
+  contextWindow?: number // 模型上下文窗口（token），用于判断是否需要分块
+  maxRetries?: number // 限流、服务端错误和网络错误的最大重试次数，0 表示不重试
+  inputPrice?: number // 输入单价（美元 / 百万 tokens），用于统计实际费用
+  outputPrice?: number // 输出单价（美元 / 百万 tokens）
 }
 
+// 可以单独指定模型的任务类型
+export type AITaskType = 'chapterSummary' | 'chapterMindMap' | 'connections' | 'overallSummary' | 'characterRelationship' | 'combinedMindMap'
+
+export const AI_TASK_TYPES: AITaskType[] = ['chapterSummary', 'chapterMindMap', 'connections', 'overallSummary', 'characterRelationship', 'combinedMindMap']
+
+export interface RetryInfo {
+  attempt: number
+  maxRetries: number
+  delayMs: number
+  status?: number // 网络错误时没有状态码
+}
+
+export interface FallbackInfo {
+  from: string
+  to: string
+  reason: string
+}
+
+interface AIServiceOptions {
+  // 等待重试前通知；重试过的请求结束后（无论成功与否）以 null 通知
+  onRetry?: (info: RetryInfo | null) => void
+  // 当前模型不可用时按顺序切换的备用模型
+  fallbackConfigs?: () => AIConfig[]
+  onFallback?: (info: FallbackInfo) => void
+  // 每次请求成功并返回用量后通知，包括重新请求和备用模型的请求
+  onUsage?: (info: UsageInfo) => void
+}
+
+// 一次请求的 token 用量，以服务商返回的 usage 为准
+export interface TokenUsage {
+  inputTokens: number
+  outputTokens: number
+}
+
+// 服务商接口的原始生成结果，服务商没有返回用量时 usage 为空
+interface ProviderContent {
+  content: string
+  reasoning: string
+  usage?: TokenUsage
+}
+
+export interface UsageInfo {
+  model: string
+  usage: TokenUsage
+  cost: number | null // 模型未设置单价时为 null
+}
+
+// 生成结果及实际生成它的模型（发生切换时为备用模型）
+export interface GeneratedContent extends ProviderContent {
+  model: string
+}
+
+// 重试后仍然限流、服务端出错或网络不通，换一个模型可能成功；Key 无效、内容超长等错误不在此列
+class ProviderUnavailableError extends Error {
+  name = 'ProviderUnavailableError'
+}
+
+export const AZURE_DEFAULT_API_VERSION = '2024-10-21'
+
+// 未配置上下文窗口时使用的默认值（token）
+export const DEFAULT_CONTEXT_WINDOW = 128000
+// 为模型输出和提示词模板预留的 token
+const RESERVED_OUTPUT_TOKENS = 8192
+const PROMPT_OVERHEAD_TOKENS = 2000
+
+// 重试策略：指数退避加随机抖动，服务端返回 Retry-After 时优先使用
+export const DEFAULT_MAX_RETRIES = 3
+const RETRY_BASE_DELAY_MS = 1000
+const RETRY_MAX_DELAY_MS = 60000
+// 超时、限流、服务端错误以及 Anthropic 的 529 Overloaded 可以重试，其余状态码（如 400、401）直接失败
+const RETRYABLE_STATUS_CODES = [408, 409, 425, 429, 500, 502, 503, 504, 529]
+// 额度耗尽（而非速率限制）的 429 重试也不会成功
+const QUOTA_EXHAUSTED_PATTERN = /insufficient_quota|billing/i
+const CONTEXT_LENGTH_PATTERN = /context_length_exceeded|maximum context length|context window|prompt is too long|too many tokens|input token count/i
+
+// 流式生成思维导图时解析预览的最小间隔
+const MIND_MAP_PREVIEW_INTERVAL_MS = 1000
+
+// Anthropic Messages API 要求显式指定 max_tokens（不含 thinking 预算）
+const ANTHROPIC_MAX_TOKENS = 8192
+const ANTHROPIC_VERSION = '2023-06-01'
+
+interface AnthropicContentBlock {
+  type: string
+  text?: string
+  thinking?: string
+}
+
+// Gemini generateContent 响应（流式时每个 SSE 事件也是同样的结构）
+interface GeminiResponse {
+  candidates?: Array<{
+    content?: { parts?: Array<{ text?: string; thought?: boolean }> }
+    finishReason?: string
+    safetyRatings?: Array<{ category: string; probability: string; blocked?: boolean }>
+  }>
+  promptFeedback?: {
+    blockReason?: string
+    blockReasonMessage?: string
+  }
+  usageMetadata?: {
+    promptTokenCount?: number
+    candidatesTokenCount?: number
+    thoughtsTokenCount?: number
+  }
+  error?: { code: number; status?: string; message: string }
+}
+
+// 这些 finishReason 表示输出被 Gemini 的安全策略或版权检测拦截
+const GEMINI_BLOCK_FINISH_REASONS = ['SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY']
+
 interface ModelConfig {
   apiUrl: string
   apiKey: string
   model: string
+  apiVersion?: string
 }
 
 export class AIService {
   private config: AIConfig | (() => AIConfig)
   private model!: ModelConfig
+  private options: AIServiceOptions
 
-  constructor(config: AIConfig | (() => AIConfig)) {
+  constructor(config: AIConfig | (() => AIConfig), options: AIServiceOptions = {}) {
     this.config = config
+    this.options = options
     const currentConfig = typeof config === 'function' ? config() : config
     this.model = this.getModelConfig(currentConfig)
   }
@@ -50,7 +177,8 @@ export class AIService {
     switch (config.provider) {
       case 'gemini':
         return {
-          apiUrl: config.apiUrl || 'https://generativelanguage.googleapis.com/v1beta/openai',
+          // 使用原生 generateContent API，兼容旧配置中的 OpenAI 兼容地址（.../v1beta/openai）
+          apiUrl: (config.apiUrl || 'https://generativelanguage.googleapis.com/v1beta').replace(/\/openai\/?$/, ''),
           apiKey: config.apiKey,
           model: config.model || 'gemini-1.5-flash'
         }
@@ -67,6 +195,23 @@ export class AIService {
           apiKey: config.apiKey || '',
           model: config.model || 'llama2'
         }
+      case 'azure':
+        if (!config.apiUrl) {
+          throw new Error('Azure OpenAI 需要配置资源终结点地址')
+        }
+        return {
+          // 只保留资源终结点，如 https://my-resource.openai.azure.com
+          apiUrl: config.apiUrl.replace(/\/openai(\/.*)?$/, '').replace(/\/+$/, ''),
+          apiKey: config.apiKey,
+          model: config.model || '',
+          apiVersion: config.apiVersion || AZURE_DEFAULT_API_VERSION
+        }
+      case 'anthropic':
+        return {
+          apiUrl: config.apiUrl || 'https://api.anthropic.com/v1',
+          apiKey: config.apiKey,
+          model: config.model || 'claude-sonnet-4-5'
+        }
       default:
         throw new Error(`Unsupported provider: ${config.provider}`)
     }
@@ -76,6 +221,13 @@ export class AIService {
     return typeof this.config === 'function' ? this.config() : this.config
   }
 
+  // 单次请求中章节内容可以使用的 token 上限，超出时由调用方分块处理
+  getMaxInputTokens(): number {
+    const contextWindow = this.getCurrentConfig().contextWindow || DEFAULT_CONTEXT_WINDOW
+    const reserved = Math.min(RESERVED_OUTPUT_TOKENS, Math.floor(contextWindow / 4)) + PROMPT_OVERHEAD_TOKENS
+    return Math.max(contextWindow - reserved, 1000)
+  }
+
   async summarizeChapter(
     title: string,
     content: string,
@@ -85,13 +237,13 @@ export class AIService {
     useCustomOnly: boolean = false,
     abortSignal?: AbortSignal,
     onStreamUpdate?: (data: { content: string; reasoning?: string }) => void
-  ): Promise<{ content: string; reasoning: string }> {
+  ): Promise<GeneratedContent> {
     try {
       const prompt = bookType === 'fiction'
         ? getFictionChapterSummaryPrompt(title, content, customPrompt, useCustomOnly)
         : getNonFictionChapterSummaryPrompt(title, content, customPrompt, useCustomOnly)
 
-      let result: { content: string; reasoning: string }
+      let result: GeneratedContent
       if (onStreamUpdate) {
         result = await this.generateContentStream(prompt, onStreamUpdate, outputLanguage, abortSignal)
       } else {
@@ -104,20 +256,56 @@ export class AIService {
 
       return {
         content: result.content.trim(),
-        reasoning: result.reasoning.trim()
+        reasoning: result.reasoning.trim(),
+        model: result.model,
+        usage: result.usage
       }
     } catch (error) {
       throw new Error(`${error instanceof Error ? error.message : 'Unknown error'}`)
     }
   }
 
+  // 合并分块总结（map-reduce 的 reduce 步骤）
+  async mergeChunkSummaries(
+    title: string,
+    partialSummaries: string[],
+    outputLanguage: SupportedLanguage = 'en',
+    customPrompt?: string,
+    abortSignal?: AbortSignal,
+    onStreamUpdate?: (data: { content: string; reasoning?: string }) => void
+  ): Promise<GeneratedContent> {
+    try {
+      const prompt = getChunkSummaryMergePrompt(title, partialSummaries, customPrompt)
+
+      let result: GeneratedContent
+      if (onStreamUpdate) {
+        result = await this.generateContentStream(prompt, onStreamUpdate, outputLanguage, abortSignal)
+      } else {
+        result = await this.generateContent(prompt, outputLanguage, abortSignal, false)
+      }
+
+      if (!result.content || result.content.trim().length === 0) {
+        throw new Error('AI返回了空的总结')
+      }
+
+      return {
+        content: result.content.trim(),
+        reasoning: result.reasoning.trim(),
+        model: result.model,
+        usage: result.usage
+      }
+    } catch (error) {
+      throw new Error(`合并分块总结失败: ${error instanceof Error ? error.message : '未知错误'}`)
+    }
+  }
+
   async analyzeConnections(
     chapters: Chapter[],
     outputLanguage: SupportedLanguage = 'en',
     bookType: 'fiction' | 'non-fiction' = 'non-fiction',
     abortSignal?: AbortSignal,
     onStreamUpdate?: (data: { content: string; reasoning?: string }) => void
-  ): Promise<string> {
+  ): Promise<{ content: string; model: string }> {
     try {
       // 构建章节摘要信息
       const chapterSummaries = chapters.map((chapter) =>
@@ -128,7 +316,7 @@ export class AIService {
         ? getFictionChapterConnectionsAnalysisPrompt(chapterSummaries)
         : getChapterConnectionsAnalysisPrompt(chapterSummaries)
 
-      let result: { content: string; reasoning: string }
+      let result: GeneratedContent
       if (onStreamUpdate) {
         result = await this.generateContentStream(prompt, onStreamUpdate, outputLanguage, abortSignal)
       } else {
@@ -140,7 +328,7 @@ export class AIService {
         throw new Error('AI返回了空的关联分析')
       }
 
-      return connections.trim()
+      return { content: connections.trim(), model: result.model }
     } catch (error) {
       throw new Error(`章节关联分析失败: ${error instanceof Error ? error.message : '未知错误'}`)
     }
@@ -153,7 +341,7 @@ export class AIService {
     bookType: 'fiction' | 'non-fiction' = 'non-fiction',
     abortSignal?: AbortSignal,
     onStreamUpdate?: (data: { content: string; reasoning?: string }) => void
-  ): Promise<string> {
+  ): Promise<{ content: string; model: string }> {
     try {
       // 构建简化的章节信息
       const chapterInfo = chapters.map((chapter, index) =>
@@ -164,7 +352,7 @@ export class AIService {
         ? getFictionOverallSummaryPrompt(bookTitle, chapterInfo)
         : getOverallSummaryPrompt(bookTitle, chapterInfo)
 
-      let result: { content: string; reasoning: string }
+      let result: GeneratedContent
       if (onStreamUpdate) {
         result = await this.generateContentStream(prompt, onStreamUpdate, outputLanguage, abortSignal)
       } else {
@@ -176,7 +364,7 @@ export class AIService {
         throw new Error('AI返回了空的全书总结')
       }
 
-      return summary.trim()
+      return { content: summary.trim(), model: result.model }
     } catch (error) {
       throw new Error(`全书总结生成失败: ${error instanceof Error ? error.message : '未知错误'}`)
     }
@@ -187,7 +375,7 @@ export class AIService {
     outputLanguage: SupportedLanguage = 'en',
     bookType: 'fiction' | 'non-fiction' = 'non-fiction',
     abortSignal?: AbortSignal
-  ): Promise<string> {
+  ): Promise<{ content: string; model: string; parseError?: string }> {
     try {
       // 构建章节摘要信息
       const chapterSummaries = chapters.map((chapter) =>
@@ -198,28 +386,43 @@ export class AIService {
         ? getFictionCharacterRelationshipPrompt(chapterSummaries)
         : getCharacterRelationshipPrompt(chapterSummaries)
 
-      const result = await this.generateContent(prompt, outputLanguage, abortSignal, false)
-      const relationship = result.content
+      const request = async (requestPrompt: string) => {
+        const result = await this.generateContent(requestPrompt, outputLanguage, abortSignal, false)
+        if (!result.content || result.content.trim().length === 0) {
+          throw new Error('AI返回了空的人物关系图')
+        }
+        // 提取mermaid代码块，用mermaid的解析器校验并自动修复常见语法问题
+        const validation = await validateMermaid(extractMermaidCode(result.content))
+        return { ...validation, model: result.model }
+      }
 
-      if (!relationship || relationship.trim().length === 0) {
-        throw new Error('AI返回了空的人物关系图')
+      const first = await request(prompt)
+      if (!first.error) {
+        return { content: first.code, model: first.model }
       }
 
-      // 提取mermaid代码块
-      const mermaidMatch = relationship.match(/```mermaid\s*([\s\S]*?)```/)
-      if (mermaidMatch && mermaidMatch[1]) {
-        return mermaidMatch[1].trim()
+      // 自动修复后仍无法解析，带上解析错误重新请求一次
+      console.warn('🩹 [DEBUG] 人物关系图语法错误，重新请求:', first.error)
+      const retry = await request(prompt + getMermaidFixPrompt(first.code, first.error))
+      if (!retry.error) {
+        return { content: retry.code, model: retry.model }
       }
 
-      // 如果没有代码块，返回原始内容
-      return relationship.trim()
+      console.warn('⚠️ [DEBUG] 重新生成的人物关系图仍无法解析:', retry.error)
+      return { content: retry.code, model: retry.model, parseError: retry.error }
     } catch (error) {
       throw new Error(`人物关系图生成失败: ${error instanceof Error ? error.message : '未知错误'}`)
     }
   }
 
 
-  async generateChapterMindMap(content: string, outputLanguage: SupportedLanguage = 'en', customPrompt?: string, abortSignal?: AbortSignal) {
+  async generateChapterMindMap(
+    content: string,
+    outputLanguage: SupportedLanguage = 'en',
+    customPrompt?: string,
+    abortSignal?: AbortSignal,
+    onStreamUpdate?: (mindMap: MindElixirData) => void
+  ) {
     try {
       const basePrompt = getChapterMindMapPrompt()
       let prompt = basePrompt + `章节内容：\n${content}`
@@ -229,10 +432,7 @@ export class AIService {
         prompt += `\n\n补充要求：${customPrompt.trim()}`
       }
 
-      const result = await this.generateContent(prompt, outputLanguage, abortSignal, true)
-      const mindMapJson = result.content
-
-      return this.parseJsonResponse(mindMapJson, "思维导图") as MindElixirData
+      return await this.generateMindMap(prompt, outputLanguage, abortSignal, getChapterMindMapSchema(), onStreamUpdate)
     } catch (error) {
       throw new Error(`章节思维导图生成失败: ${error instanceof Error ? error.message : '未知错误'}`)
     }
@@ -252,7 +452,13 @@ export class AIService {
     }
   }
 
-  async generateCombinedMindMap(bookTitle: string, chapters: Chapter[], customPrompt?: string, abortSignal?: AbortSignal) {
+  async generateCombinedMindMap(
+    bookTitle: string,
+    chapters: Chapter[],
+    customPrompt?: string,
+    abortSignal?: AbortSignal,
+    onStreamUpdate?: (mindMap: MindElixirData) => void
+  ) {
     try {
       const basePrompt = getChapterMindMapPrompt()
       const chaptersContent = chapters.map(item => item.content).join('\n\n ------------- \n\n')
@@ -265,15 +471,70 @@ export class AIService {
         prompt += `\n\n补充要求：${customPrompt.trim()}`
       }
 
-      const result = await this.generateContent(prompt, 'en', abortSignal, true)
-      const mindMapJson = result.content
-
-      return this.parseJsonResponse(mindMapJson, "思维导图") as MindElixirData
+      return await this.generateMindMap(prompt, 'en', abortSignal, undefined, onStreamUpdate)
     } catch (error) {
       throw new Error(`整书思维导图生成失败: ${error instanceof Error ? error.message : '未知错误'}`)
     }
   }
 
+  // 生成思维导图并校验结构：能修复的问题直接修复，否则带上校验错误重新请求一次
+  // 传入 onStreamUpdate 时流式生成，并把已输出的部分解析为思维导图用于预览
+  private async generateMindMap(
+    prompt: string,
+    outputLanguage: SupportedLanguage,
+    abortSignal?: AbortSignal,
+    responseSchema?: ResponseSchema,
+    onStreamUpdate?: (mindMap: MindElixirData) => void
+  ): Promise<{ mindMap: MindElixirData; model: string }> {
+    const request = (requestPrompt: string) => {
+      if (!onStreamUpdate) {
+        return this.generateContent(requestPrompt, outputLanguage, abortSignal, true, responseSchema)
+      }
+
+      let currentContent = ''
+      let lastUpdateTime = 0
+      return this.generateContentStream(requestPrompt, (data) => {
+        currentContent += data.content
+        const now = Date.now()
+        if (now - lastUpdateTime < MIND_MAP_PREVIEW_INTERVAL_MS) return
+        const partialMindMap = parsePartialMindMap(currentContent)
+        if (partialMindMap) {
+          onStreamUpdate(partialMindMap)
+          lastUpdateTime = now
+        }
+      }, outputLanguage, abortSignal, true, responseSchema)
+    }
+
+    const result = await request(prompt)
+    const validation = this.parseMindMapResponse(result.content)
+    if (validation.data) {
+      return { mindMap: validation.data, model: result.model }
+    }
+
+    console.warn('🩹 [DEBUG] 思维导图数据未通过校验，带上错误信息重新请求:', validation.errors)
+    const retryResult = await request(prompt + getMindMapFixPrompt(validation.errors))
+    const retryValidation = this.parseMindMapResponse(retryResult.content)
+    if (!retryValidation.data) {
+      throw new Error(`重新生成后仍未通过校验: ${retryValidation.errors.join('；')}`)
+    }
+    return { mindMap: retryValidation.data, model: retryResult.model }
+  }
+
+  private parseMindMapResponse(response: string): MindMapValidationResult {
+    let parsed: unknown
+    try {
+      parsed = this.parseJsonResponse(response, '思维导图')
+    } catch (error) {
+      return { data: null, errors: [error instanceof Error ? error.message : '未知错误'], repairs: [] }
+    }
+
+    const validation = validateMindMap(parsed)
+    if (validation.data && validation.repairs.length > 0) {
+      console.log('🩹 [DEBUG] 已自动修复思维导图数据:', validation.repairs)
+    }
+    return validation
+  }
+
   // 辅助方法：解析AI返回的JSON数据
   private parseJsonResponse(response: string, errorContext: string): unknown {
     if (!response || response.trim().length === 0) {
@@ -284,26 +545,73 @@ export class AIService {
     try {
       return JSON.parse(response.trim())
     } catch {
-      // 尝试从代码块中提取JSON
-      const jsonMatch = response.match(/```(?:json)?\s*([\s\S]*?)```/)
-      if (jsonMatch && jsonMatch[1]) {
-        try {
-          return JSON.parse(jsonMatch[1].trim())
-        } catch {
-          throw new Error(`AI返回的${errorContext}数据格式不正确`)
-        }
+      // 去掉代码块和多余文字、尾随逗号，补全被截断的输出后再解析
+      try {
+        return JSON.parse(repairJson(response))
+      } catch {
+        throw new Error(`AI返回的${errorContext}数据格式不正确`)
       }
-      throw new Error(`AI返回的${errorContext}数据格式不正确`)
     }
   }
 
-  // 统一的内容生成方法
+  // 统一的内容生成方法，当前模型不可用时切换到备用模型
   private async generateContent(
     prompt: string,
     outputLanguage?: SupportedLanguage,
     abortSignal?: AbortSignal,
-    requireJsonFormat: boolean = false
-  ): Promise<{ content: string; reasoning: string }> {
+    requireJsonFormat: boolean = false,
+    responseSchema?: ResponseSchema // 目前只有 Gemini 原生 API 使用
+  ): Promise<GeneratedContent> {
+    return this.withFallback(service => service.requestContent(prompt, outputLanguage, abortSignal, requireJsonFormat, responseSchema))
+  }
+
+  // 流式内容生成方法，切换备用模型只发生在开始输出之前
+  private async generateContentStream(
+    prompt: string,
+    onUpdate: (data: { content: string; reasoning?: string }) => void,
+    outputLanguage?: SupportedLanguage,
+    abortSignal?: AbortSignal,
+    requireJsonFormat: boolean = false,
+    responseSchema?: ResponseSchema
+  ): Promise<GeneratedContent> {
+    return this.withFallback(service => service.requestContentStream(prompt, onUpdate, outputLanguage, abortSignal, requireJsonFormat, responseSchema))
+  }
+
+  private async withFallback(
+    request: (service: AIService) => Promise<ProviderContent>
+  ): Promise<GeneratedContent> {
+    try {
+      const result = await request(this)
+      if (result.usage) {
+        const { inputPrice, outputPrice } = this.getCurrentConfig()
+        this.options.onUsage?.({
+          model: this.model.model,
+          usage: result.usage,
+          cost: calculateCost(result.usage.inputTokens, result.usage.outputTokens, inputPrice, outputPrice)
+        })
+      }
+      return { ...result, model: this.model.model }
+    } catch (error) {
+      const [nextConfig, ...remainingConfigs] = this.options.fallbackConfigs?.() || []
+      if (!(error instanceof ProviderUnavailableError) || !nextConfig) {
+        throw error
+      }
+
+      const nextService = new AIService(nextConfig, { ...this.options, fallbackConfigs: () => remainingConfigs })
+      console.warn(`🔀 [DEBUG] 模型 ${this.model.model} 不可用，切换到备用模型 ${nextService.model.model}:`, error.message)
+      this.options.onRetry?.(null)
+      this.options.onFallback?.({ from: this.model.model, to: nextService.model.model, reason: error.message })
+      return nextService.withFallback(request)
+    }
+  }
+
+  private async requestContent(
+    prompt: string,
+    outputLanguage?: SupportedLanguage,
+    abortSignal?: AbortSignal,
+    requireJsonFormat: boolean = false,
+    responseSchema?: ResponseSchema
+  ): Promise<ProviderContent> {
     const config = this.getCurrentConfig()
     const language = outputLanguage || 'en'
     const systemPrompt = getLanguageInstruction(language)
@@ -321,6 +629,14 @@ export class AIService {
       throw new DOMException('Request was aborted', 'AbortError')
     }
 
+    if (config.provider === 'anthropic') {
+      return this.generateAnthropicContent(config, messages[0].content, abortSignal)
+    }
+
+    if (config.provider === 'gemini') {
+      return this.generateGeminiContent(config, messages[0].content, abortSignal, requireJsonFormat, responseSchema)
+    }
+
     // 构建请求体，只在需要JSON格式时添加response_format
     const requestBody: {
       model: string
@@ -340,21 +656,13 @@ export class AIService {
       }
     }
 
-    const response = await fetch(`${this.model.apiUrl}/chat/completions`, {
+    const response = await this.fetchWithRetry(this.getChatCompletionsUrl(config), {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${this.model.apiKey}`
-      },
+      headers: this.getChatCompletionsHeaders(config),
       body: JSON.stringify(requestBody),
       signal: abortSignal
     })
 
-    if (!response.ok) {
-      const errorBody = await response.text()
-      throw new Error(`Error: ${response.status} ${response.statusText} - ${errorBody}`)
-    }
-
     const data = await response.json()
 
     if (data.choices?.[0]?.error) {
@@ -364,17 +672,21 @@ export class AIService {
 
     return {
       content: data.choices[0]?.message?.content || '',
-      reasoning: data.choices[0]?.message?.reasoning_content || ''
+      reasoning: data.choices[0]?.message?.reasoning_content || '',
+      usage: data.usage
+        ? { inputTokens: data.usage.prompt_tokens || 0, outputTokens: data.usage.completion_tokens || 0 }
+        : undefined
     }
   }
 
-  // 流式内容生成方法
-  private async generateContentStream(
+  private async requestContentStream(
     prompt: string,
     onUpdate: (data: { content: string; reasoning?: string }) => void,
     outputLanguage?: SupportedLanguage,
-    abortSignal?: AbortSignal
-  ): Promise<{ content: string; reasoning: string }> {
+    abortSignal?: AbortSignal,
+    requireJsonFormat: boolean = false,
+    responseSchema?: ResponseSchema
+  ): Promise<ProviderContent> {
     const config = this.getCurrentConfig()
     const language = outputLanguage || 'en'
     const systemPrompt = getLanguageInstruction(language)
@@ -390,74 +702,512 @@ export class AIService {
       throw new DOMException('Request was aborted', 'AbortError')
     }
 
+    if (config.provider === 'anthropic') {
+      return this.generateAnthropicContentStream(config, messages[0].content, onUpdate, abortSignal)
+    }
+
+    if (config.provider === 'gemini') {
+      return this.generateGeminiContentStream(config, messages[0].content, onUpdate, abortSignal, requireJsonFormat, responseSchema)
+    }
+
     try {
-      const response = await fetch(`${this.model.apiUrl}/chat/completions`, {
+      const response = await this.fetchWithRetry(this.getChatCompletionsUrl(config), {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.model.apiKey}`
-        },
+        headers: this.getChatCompletionsHeaders(config),
         body: JSON.stringify({
           model: this.model.model,
           messages,
           temperature: config.temperature || 0.7,
-          stream: true // 开启流式传输
+          stream: true, // 开启流式传输
+          stream_options: { include_usage: true }, // 在最后一个事件中返回用量
+          ...(requireJsonFormat ? { response_format: { type: 'json_object' } } : {})
         }),
         signal: abortSignal
       })
 
-      if (!response.ok) {
+      let fullContent = ''
+      let fullReasoning = ''
+      let usage: TokenUsage | undefined
+
+      await this.readEventStream(response, (data) => {
+        try {
+          const json = JSON.parse(data)
+          // 部分服务商在最后一个事件中返回用量
+          if (json.usage) {
+            usage = { inputTokens: json.usage.prompt_tokens || 0, outputTokens: json.usage.completion_tokens || 0 }
+          }
+          const delta = json.choices?.[0]?.delta
+          const contentChunk = delta?.content || ''
+          const reasoningChunk = delta?.reasoning_content || delta?.reasoning || ''
+
+          if (contentChunk || reasoningChunk) {
+            fullContent += contentChunk
+            fullReasoning += reasoningChunk
+            onUpdate({ content: contentChunk, reasoning: reasoningChunk })
+          }
+        } catch (e) {
+          console.warn('Error parsing stream chunk:', e)
+        }
+      })
+
+      return { content: fullContent, reasoning: fullReasoning, usage }
+    } catch (error) {
+      if ((error instanceof Error && error.name === 'AbortError') || error instanceof ProviderUnavailableError) {
+        throw error
+      }
+      throw new Error(`Stream generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  // 发送请求，限流、服务端错误和网络错误按指数退避重试，返回的响应一定是 ok 的
+  // 流式请求只在拿到响应前重试，已经开始输出的流不会重放
+  private async fetchWithRetry(url: string, init: RequestInit): Promise<Response> {
+    const maxRetries = this.getCurrentConfig().maxRetries ?? DEFAULT_MAX_RETRIES
+
+    let retried = false
+    try {
+      for (let attempt = 0; ; attempt++) {
+        let response: Response
+        try {
+          response = await fetch(url, init)
+        } catch (error) {
+          // 取消不重试；其余异常是网络错误（断网、连接被重置等）
+          if (error instanceof Error && error.name === 'AbortError') {
+            throw error
+          }
+          if (attempt >= maxRetries) {
+            throw new ProviderUnavailableError(error instanceof Error ? error.message : String(error))
+          }
+          retried = true
+          await this.waitForRetry(attempt, maxRetries, this.getBackoffDelay(attempt), init.signal, error)
+          continue
+        }
+
+        if (response.ok) {
+          return response
+        }
+
         const errorBody = await response.text()
-        throw new Error(`Error: ${response.status} ${response.statusText} - ${errorBody}`)
+        const message = `Error: ${response.status} ${response.statusText} - ${errorBody}`
+
+        if (response.status === 400 && CONTEXT_LENGTH_PATTERN.test(errorBody)) {
+          throw new Error(`内容超出模型上下文长度，请在模型设置中调小上下文窗口以自动分块处理。${message}`)
+        }
+        if (response.status === 401 || response.status === 403) {
+          throw new Error(`API Key 无效或没有访问权限，请检查模型配置。${message}`)
+        }
+        if (!RETRYABLE_STATUS_CODES.includes(response.status)) {
+          throw new Error(message)
+        }
+        if (QUOTA_EXHAUSTED_PATTERN.test(errorBody)) {
+          throw new ProviderUnavailableError(message)
+        }
+        if (attempt >= maxRetries) {
+          throw new ProviderUnavailableError(maxRetries > 0 ? `${message}（已重试 ${maxRetries} 次）` : message)
+        }
+
+        const retryAfterMs = this.getRetryAfterMs(response.headers, errorBody)
+        if (retryAfterMs !== null && retryAfterMs > RETRY_MAX_DELAY_MS) {
+          throw new ProviderUnavailableError(`${message}（服务端要求 ${Math.ceil(retryAfterMs / 1000)} 秒后重试，超出等待上限）`)
+        }
+        retried = true
+        await this.waitForRetry(attempt, maxRetries, retryAfterMs ?? this.getBackoffDelay(attempt), init.signal, message, response.status)
+      }
+    } finally {
+      // 重试过的请求结束（成功、失败或取消）后清除重试提示
+      if (retried) {
+        this.options.onRetry?.(null)
+      }
+    }
+  }
+
+  private async waitForRetry(
+    attempt: number,
+    maxRetries: number,
+    delayMs: number,
+    abortSignal: AbortSignal | null | undefined,
+    reason: unknown,
+    status?: number
+  ): Promise<void> {
+    console.warn(`🔁 [DEBUG] 请求失败，${Math.round(delayMs)}ms 后进行第 ${attempt + 1}/${maxRetries} 次重试:`, reason)
+    this.options.onRetry?.({ attempt: attempt + 1, maxRetries, delayMs, status })
+
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer)
+        reject(new DOMException('Request was aborted', 'AbortError'))
+      }
+      const timer = setTimeout(() => {
+        abortSignal?.removeEventListener('abort', onAbort)
+        resolve()
+      }, delayMs)
+      if (abortSignal?.aborted) {
+        onAbort()
+        return
+      }
+      abortSignal?.addEventListener('abort', onAbort, { once: true })
+    })
+  }
+
+  // 指数退避，在 [50%, 100%] 区间内随机抖动，避免多个请求同时重试
+  private getBackoffDelay(attempt: number): number {
+    const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, RETRY_MAX_DELAY_MS)
+    return delay / 2 + Math.random() * delay / 2
+  }
+
+  // 依次读取 retry-after-ms（OpenAI/Azure）、Retry-After（秒数或 HTTP 日期）和 Gemini 错误详情中的 retryDelay
+  private getRetryAfterMs(headers: Headers, errorBody: string): number | null {
+    const retryAfterMs = parseFloat(headers.get('retry-after-ms') || '')
+    if (!isNaN(retryAfterMs)) {
+      return Math.max(0, retryAfterMs)
+    }
+
+    const retryAfter = headers.get('retry-after')
+    if (retryAfter) {
+      const seconds = Number(retryAfter)
+      if (!isNaN(seconds)) {
+        return Math.max(0, seconds * 1000)
+      }
+      const date = Date.parse(retryAfter)
+      if (!isNaN(date)) {
+        return Math.max(0, date - Date.now())
       }
+    }
+
+    const retryDelay = errorBody.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/)
+    if (retryDelay) {
+      return parseFloat(retryDelay[1]) * 1000
+    }
+
+    return null
+  }
+
+  // Azure OpenAI 按部署名称路由并通过 api-version 查询参数指定版本
+  private getChatCompletionsUrl(config: AIConfig): string {
+    if (config.provider === 'azure') {
+      return `${this.model.apiUrl}/openai/deployments/${encodeURIComponent(this.model.model)}/chat/completions?api-version=${encodeURIComponent(this.model.apiVersion || AZURE_DEFAULT_API_VERSION)}`
+    }
+    return `${this.model.apiUrl}/chat/completions`
+  }
+
+  private getChatCompletionsHeaders(config: AIConfig): Record<string, string> {
+    if (config.provider === 'azure') {
+      return {
+        'Content-Type': 'application/json',
+        'api-key': this.model.apiKey
+      }
+    }
+    return {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${this.model.apiKey}`
+    }
+  }
+
+  // 逐行读取SSE响应，把每个 data: 负载交给 onData 处理
+  private async readEventStream(response: Response, onData: (data: string) => void): Promise<void> {
+    if (!response.body) {
+      throw new Error('Response body is null')
+    }
+
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder('utf-8')
+    let buffer = ''
+
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
 
-      if (!response.body) {
-        throw new Error('Response body is null')
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split('\n')
+
+      // 保留最后一个可能不完整的行
+      buffer = lines.pop() || ''
+
+      for (const line of lines) {
+        const trimmedLine = line.trim()
+        if (!trimmedLine || trimmedLine === 'data: [DONE]') continue
+
+        if (trimmedLine.startsWith('data:')) {
+          onData(trimmedLine.slice(5).trim())
+        }
       }
+    }
+  }
+
+  // Anthropic Messages API 请求头（浏览器中直接调用需要显式允许）
+  private getAnthropicHeaders(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      'x-api-key': this.model.apiKey,
+      'anthropic-version': ANTHROPIC_VERSION,
+      'anthropic-dangerous-direct-browser-access': 'true'
+    }
+  }
+
+  // 开启 extended thinking 时不能设置 temperature，且 max_tokens 必须大于 thinking 预算
+  private buildAnthropicRequestBody(config: AIConfig, content: string, stream: boolean) {
+    const thinkingBudget = config.thinkingBudget || 0
+    const requestBody: {
+      model: string
+      max_tokens: number
+      messages: Array<{ role: 'user', content: string }>
+      temperature?: number
+      thinking?: { type: 'enabled', budget_tokens: number }
+      stream?: boolean
+    } = {
+      model: this.model.model,
+      max_tokens: ANTHROPIC_MAX_TOKENS,
+      messages: [{ role: 'user', content }]
+    }
+
+    if (thinkingBudget > 0) {
+      // Anthropic 要求 thinking 预算至少 1024
+      requestBody.thinking = { type: 'enabled', budget_tokens: Math.max(thinkingBudget, 1024) }
+      requestBody.max_tokens = ANTHROPIC_MAX_TOKENS + requestBody.thinking.budget_tokens
+    } else {
+      // Anthropic 的 temperature 范围是 0-1
+      requestBody.temperature = Math.min(config.temperature || 0.7, 1)
+    }
+
+    if (stream) {
+      requestBody.stream = true
+    }
+
+    return requestBody
+  }
+
+  // Anthropic 没有 response_format，JSON 输出依赖提示词约束和 parseJsonResponse 的代码块提取
+  private async generateAnthropicContent(
+    config: AIConfig,
+    content: string,
+    abortSignal?: AbortSignal
+  ): Promise<ProviderContent> {
+    const response = await this.fetchWithRetry(`${this.model.apiUrl}/messages`, {
+      method: 'POST',
+      headers: this.getAnthropicHeaders(),
+      body: JSON.stringify(this.buildAnthropicRequestBody(config, content, false)),
+      signal: abortSignal
+    })
+
+    const data = await response.json()
+
+    if (data.type === 'error') {
+      throw new Error(`AI Provider Error: ${data.error?.type} - ${data.error?.message}`)
+    }
+
+    // thinking 块映射为 reasoning，text 块拼接为正文
+    const blocks: AnthropicContentBlock[] = data.content || []
+    return {
+      content: blocks.filter(block => block.type === 'text').map(block => block.text || '').join(''),
+      reasoning: blocks.filter(block => block.type === 'thinking').map(block => block.thinking || '').join('\n\n'),
+      usage: data.usage
+        ? { inputTokens: data.usage.input_tokens || 0, outputTokens: data.usage.output_tokens || 0 }
+        : undefined
+    }
+  }
+
+  private async generateAnthropicContentStream(
+    config: AIConfig,
+    content: string,
+    onUpdate: (data: { content: string; reasoning?: string }) => void,
+    abortSignal?: AbortSignal
+  ): Promise<ProviderContent> {
+    try {
+      const response = await this.fetchWithRetry(`${this.model.apiUrl}/messages`, {
+        method: 'POST',
+        headers: this.getAnthropicHeaders(),
+        body: JSON.stringify(this.buildAnthropicRequestBody(config, content, true)),
+        signal: abortSignal
+      })
 
-      const reader = response.body.getReader()
-      const decoder = new TextDecoder('utf-8')
       let fullContent = ''
       let fullReasoning = ''
-      let buffer = ''
-
-      while (true) {
-        const { done, value } = await reader.read()
-        if (done) break
-
-        buffer += decoder.decode(value, { stream: true })
-        const lines = buffer.split('\n')
-
-        // 保留最后一个可能不完整的行
-        buffer = lines.pop() || ''
-
-        for (const line of lines) {
-          const trimmedLine = line.trim()
-          if (!trimmedLine || trimmedLine === 'data: [DONE]') continue
-
-          if (trimmedLine.startsWith('data: ')) {
-            try {
-              const jsonStr = trimmedLine.slice(6)
-              const json = JSON.parse(jsonStr)
-              const delta = json.choices?.[0]?.delta
-              const contentChunk = delta?.content || ''
-              const reasoningChunk = delta?.reasoning_content || delta?.reasoning || ''
-
-              if (contentChunk || reasoningChunk) {
-                fullContent += contentChunk
-                fullReasoning += reasoningChunk
-                onUpdate({ content: contentChunk, reasoning: reasoningChunk })
-              }
-            } catch (e) {
-              console.warn('Error parsing stream chunk:', e)
-            }
+      let usage: TokenUsage | undefined
+
+      await this.readEventStream(response, (data) => {
+        let event
+        try {
+          event = JSON.parse(data)
+        } catch (e) {
+          console.warn('Error parsing stream chunk:', e)
+          return
+        }
+
+        // 流中途的错误（如 overloaded_error）以 error 事件返回
+        if (event.type === 'error') {
+          throw new Error(`AI Provider Error: ${event.error?.type} - ${event.error?.message}`)
+        }
+
+        // 输入用量在 message_start 中返回，输出用量在 message_delta 中累计
+        if (event.type === 'message_start' && event.message?.usage) {
+          usage = { inputTokens: event.message.usage.input_tokens || 0, outputTokens: event.message.usage.output_tokens || 0 }
+        }
+        if (event.type === 'message_delta' && event.usage) {
+          usage = { inputTokens: usage?.inputTokens || 0, outputTokens: event.usage.output_tokens || 0 }
+        }
+
+        if (event.type === 'content_block_delta') {
+          const contentChunk = event.delta?.type === 'text_delta' ? event.delta.text || '' : ''
+          const reasoningChunk = event.delta?.type === 'thinking_delta' ? event.delta.thinking || '' : ''
+
+          if (contentChunk || reasoningChunk) {
+            fullContent += contentChunk
+            fullReasoning += reasoningChunk
+            onUpdate({ content: contentChunk, reasoning: reasoningChunk })
           }
         }
+      })
+
+      return { content: fullContent, reasoning: fullReasoning, usage }
+    } catch (error) {
+      if ((error instanceof Error && error.name === 'AbortError') || error instanceof ProviderUnavailableError) {
+        throw error
       }
+      throw new Error(`Stream generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  // 模型列表返回的 ID 形如 models/gemini-2.5-flash，拼接地址前去掉前缀
+  private getGeminiModelUrl(method: string): string {
+    return `${this.model.apiUrl}/models/${this.model.model.replace(/^models\//, '')}:${method}`
+  }
+
+  private getGeminiHeaders(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      'x-goog-api-key': this.model.apiKey
+    }
+  }
+
+  private buildGeminiRequestBody(config: AIConfig, content: string, requireJsonFormat: boolean, responseSchema?: ResponseSchema) {
+    const generationConfig: {
+      temperature: number
+      responseMimeType?: string
+      responseSchema?: ResponseSchema
+      thinkingConfig?: { includeThoughts: boolean }
+    } = {
+      temperature: config.temperature || 0.7
+    }
+
+    if (requireJsonFormat || responseSchema) {
+      generationConfig.responseMimeType = 'application/json'
+    }
+    if (responseSchema) {
+      generationConfig.responseSchema = responseSchema
+    }
+    // 只有 2.5 及以后的思考模型支持返回思考摘要，旧模型传 thinkingConfig 会报错
+    if (/gemini-(2\.5|[3-9])|thinking/.test(this.model.model)) {
+      generationConfig.thinkingConfig = { includeThoughts: true }
+    }
+
+    return {
+      contents: [{ role: 'user', parts: [{ text: content }] }],
+      generationConfig
+    }
+  }
+
+  // 解析 Gemini 响应：thought 部分映射为 reasoning，内容被拦截时抛出说明原因的错误
+  private parseGeminiResponse(data: GeminiResponse): ProviderContent {
+    if (data.error) {
+      throw new Error(`AI Provider Error: ${data.error.status || data.error.code} - ${data.error.message}`)
+    }
+
+    const blockReason = data.promptFeedback?.blockReason
+    if (blockReason) {
+      const detail = data.promptFeedback?.blockReasonMessage ? `，${data.promptFeedback.blockReasonMessage}` : ''
+      throw new Error(`Gemini拒绝处理该内容（${blockReason}${detail}），请尝试跳过该章节或更换模型`)
+    }
+
+    const candidate = data.candidates?.[0]
+    if (candidate?.finishReason && GEMINI_BLOCK_FINISH_REASONS.includes(candidate.finishReason)) {
+      const categories = (candidate.safetyRatings || [])
+        .filter(rating => rating.blocked || rating.probability === 'HIGH')
+        .map(rating => rating.category.replace(/^HARM_CATEGORY_/, ''))
+      const detail = categories.length > 0 ? `: ${categories.join(', ')}` : ''
+      throw new Error(`Gemini的输出被拦截（${candidate.finishReason}${detail}），请尝试跳过该章节或更换模型`)
+    }
+
+    let content = ''
+    let reasoning = ''
+    for (const part of candidate?.content?.parts || []) {
+      if (part.thought) {
+        reasoning += part.text || ''
+      } else {
+        content += part.text || ''
+      }
+    }
+
+    // 思考部分的 token 单独计数，按输出计费
+    const usage = data.usageMetadata
+      ? {
+          inputTokens: data.usageMetadata.promptTokenCount || 0,
+          outputTokens: (data.usageMetadata.candidatesTokenCount || 0) + (data.usageMetadata.thoughtsTokenCount || 0)
+        }
+      : undefined
+    return { content, reasoning, usage }
+  }
+
+  private async generateGeminiContent(
+    config: AIConfig,
+    content: string,
+    abortSignal?: AbortSignal,
+    requireJsonFormat: boolean = false,
+    responseSchema?: ResponseSchema
+  ): Promise<ProviderContent> {
+    const response = await this.fetchWithRetry(this.getGeminiModelUrl('generateContent'), {
+      method: 'POST',
+      headers: this.getGeminiHeaders(),
+      body: JSON.stringify(this.buildGeminiRequestBody(config, content, requireJsonFormat, responseSchema)),
+      signal: abortSignal
+    })
+
+    return this.parseGeminiResponse(await response.json())
+  }
+
+  private async generateGeminiContentStream(
+    config: AIConfig,
+    content: string,
+    onUpdate: (data: { content: string; reasoning?: string }) => void,
+    abortSignal?: AbortSignal,
+    requireJsonFormat: boolean = false,
+    responseSchema?: ResponseSchema
+  ): Promise<ProviderContent> {
+    try {
+      const response = await this.fetchWithRetry(this.getGeminiModelUrl('streamGenerateContent?alt=sse'), {
+        method: 'POST',
+        headers: this.getGeminiHeaders(),
+        body: JSON.stringify(this.buildGeminiRequestBody(config, content, requireJsonFormat, responseSchema)),
+        signal: abortSignal
+      })
+
+      let fullContent = ''
+      let fullReasoning = ''
+      let usage: TokenUsage | undefined
+
+      await this.readEventStream(response, (data) => {
+        let chunk: GeminiResponse
+        try {
+          chunk = JSON.parse(data)
+        } catch (e) {
+          console.warn('Error parsing stream chunk:', e)
+          return
+        }
+
+        const { content: contentChunk, reasoning: reasoningChunk, usage: chunkUsage } = this.parseGeminiResponse(chunk)
+        // 每个事件中的用量都是累计值，取最后一个
+        if (chunkUsage) {
+          usage = chunkUsage
+        }
+        if (contentChunk || reasoningChunk) {
+          fullContent += contentChunk
+          fullReasoning += reasoningChunk
+          onUpdate({ content: contentChunk, reasoning: reasoningChunk })
+        }
+      })
 
-      return { content: fullContent, reasoning: fullReasoning }
+      return { content: fullContent, reasoning: fullReasoning, usage }
     } catch (error) {
-      if (error instanceof Error && error.name === 'AbortError') {
+      if ((error instanceof Error && error.name === 'AbortError') || error instanceof ProviderUnavailableError) {
         throw error
       }
       throw new Error(`Stream generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
@@ -467,7 +1217,8 @@ export class AIService {
   // 辅助方法：检查API连接
   async testConnection(): Promise<boolean> {
     try {
-      const result = await this.generateContent(getTestConnectionPrompt(), undefined, undefined, false)
+      // 只测试当前模型，不切换备用模型
+      const result = await this.requestContent(getTestConnectionPrompt(), undefined, undefined, false)
       return result.content.includes('连接成功') || result.content.includes('成功')
     } catch {
       return false
@@ -0,0 +1,92 @@
+import type { ReactNode } from 'react'
+
+// 各格式通用的章节数据，具体格式在此基础上附加自己的定位信息（href、页码、字节偏移等）
+export interface ChapterData {
+  id: string
+  title: string
+  content: string
+  depth?: number // 章节层级深度
+}
+
+// 各格式通用的书籍数据，具体格式附加解析后的文档对象
+export interface BookData {
+  title: string
+  author: string
+}
+
+export interface ChapterExtractionOptions {
+  skipNonEssentialChapters: boolean
+  maxSubChapterDepth: number
+  forceUseSpine: boolean
+  removeHeadersFooters: boolean
+  // 将正文引用的脚注/尾注内容附加到章节末尾
+  includeNotes: boolean
+}
+
+export interface BookReaderProps<TBook extends BookData = BookData, TChapter extends ChapterData = ChapterData> {
+  initialChapterId: string
+  chapterIds: string[]
+  chapters: TChapter[]
+  bookData?: TBook
+  onClose: () => void
+  className?: string
+}
+
+/**
+ * 电子书格式处理器
+ * 新格式只需实现解析、提取章节和阅读器渲染，并通过 registerBookFormat 注册，页面组件无需修改
+ */
+export interface BookFormatHandler<TBook extends BookData = BookData, TChapter extends ChapterData = ChapterData> {
+  id: string
+  // 小写并带点的扩展名，可以包含多段，如 '.fb2.zip'
+  extensions: string[]
+  mimeTypes: string[]
+  parse(file: File): Promise<TBook>
+  extractChapters(file: File, bookData: TBook, options: ChapterExtractionOptions): Promise<TChapter[]>
+  renderReader(props: BookReaderProps<TBook, TChapter>): ReactNode
+  // 释放书籍数据占用的资源（如图片的 blob URL），书籍数据被替换或页面卸载时调用
+  release?(bookData: TBook): void
+}
+
+const handlers: BookFormatHandler[] = []
+
+export function registerBookFormat<TBook extends BookData, TChapter extends ChapterData>(handler: BookFormatHandler<TBook, TChapter>) {
+  const index = handlers.findIndex(existing => existing.id === handler.id)
+  if (index >= 0) {
+    handlers[index] = handler
+  } else {
+    handlers.push(handler)
+  }
+}
+
+// 先按扩展名匹配（最长的优先，如 .fb2.zip）；只有文件没有扩展名时才按 MIME 类型匹配，
+// 避免把 MIME 类型为 text/plain 的其他文件当作 TXT
+export function getBookFormatHandler(file: File): BookFormatHandler | undefined {
+  const fileName = file.name.toLowerCase()
+  let matched: BookFormatHandler | undefined
+  let matchedLength = 0
+
+  for (const handler of handlers) {
+    for (const extension of handler.extensions) {
+      if (fileName.endsWith(extension) && extension.length > matchedLength) {
+        matched = handler
+        matchedLength = extension.length
+      }
+    }
+  }
+
+  if (matched || !file.type || /\.[^./\\]+$/.test(fileName)) {
+    return matched
+  }
+  return handlers.find(handler => handler.mimeTypes.includes(file.type))
+}
+
+export function isSupportedBookFile(file: File): boolean {
+  return getBookFormatHandler(file) !== undefined
+}
+
+// 文件选择框的 accept 属性：accept 只按最后一段扩展名匹配，多段扩展名（如 .fb2.zip）需要拆出最后一段
+export function getSupportedFileAccept(): string {
+  const extensions = handlers.flatMap(handler => handler.extensions.map(extension => extension.slice(extension.lastIndexOf('.'))))
+  return [...new Set([...extensions, ...handlers.flatMap(handler => handler.mimeTypes)])].join(',')
+}
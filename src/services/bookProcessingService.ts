@@ -1,9 +1,21 @@
-import type { ChapterData } from './epubProcessor'
-import type { AIService } from './aiService'
-import type { CacheService } from './cacheService'
+import type { ChapterData } from './bookFormat'
+import type { AIService, AITaskType, GeneratedContent, TokenUsage } from './aiService'
+import type { CacheMetadata, CacheService } from './cacheService'
 import type { SupportedLanguage } from './prompts/utils'
 import type { MindElixirData } from 'mind-elixir'
 import type { Summary } from 'node_modules/mind-elixir/dist/types/summary'
+import { estimateTokens, splitIntoChunks } from '../utils/tokenEstimator'
+import {
+  getFictionChapterSummaryPrompt,
+  getNonFictionChapterSummaryPrompt,
+  getChunkSummaryMergePrompt,
+  getChapterConnectionsAnalysisPrompt,
+  getFictionChapterConnectionsAnalysisPrompt,
+  getOverallSummaryPrompt,
+  getFictionOverallSummaryPrompt,
+  getFictionCharacterRelationshipPrompt,
+  getChapterMindMapPrompt
+} from './prompts'
 
 /**
  * 简单的字符串哈希函数（类似MD5但更轻量）
@@ -38,6 +50,46 @@ export interface ChapterGroup {
   reasoning?: string
   mindMap?: MindElixirData
   isLoading?: boolean
+  error?: string // 处理失败时的错误信息，失败的组不参与整书步骤
+  model?: string // 生成结果的模型，切换过备用模型时为实际使用的模型；命中没有元数据的旧缓存时为空
+  usage?: TokenUsage // 生成总结消耗的 token，分块处理时为各次请求之和
+  cachedAt?: number // 命中缓存时为缓存的生成时间
+}
+
+// 内容超出模型上下文时的分块进度：map 为逐块处理，reduce 为合并各块结果
+export interface ChunkProgress {
+  stage: 'map' | 'reduce'
+  current: number
+  total: number
+}
+
+// 未配置并发数时逐组处理
+export const DEFAULT_CONCURRENCY = 1
+
+// 预估的单次请求输出 token 数，实际输出长度取决于模型和内容
+const ESTIMATED_OUTPUT_TOKENS = {
+  summary: 1200,
+  mindmap: 2000,
+  connections: 1500,
+  overallSummary: 2000,
+  characterRelationship: 800,
+  combinedMindMap: 4000
+}
+
+export interface TokenEstimate {
+  id: string // 组ID，或整书步骤：connections / overallSummary / characterRelationship / combinedMindMap
+  label: string
+  task: AITaskType
+  requests: number
+  inputTokens: number
+  outputTokens: number
+}
+
+export interface ProcessingEstimate {
+  groups: TokenEstimate[]
+  bookLevel: TokenEstimate[]
+  inputTokens: number
+  outputTokens: number
 }
 
 interface TempChapterGroup {
@@ -49,11 +101,12 @@ interface TempChapterGroup {
 type BookType = 'fiction' | 'non-fiction'
 
 export class BookProcessingService {
-  private aiService: AIService
+  private getAIService: (task: AITaskType) => AIService
   private cacheService: CacheService
 
-  constructor(aiService: AIService, cacheService: CacheService) {
-    this.aiService = aiService
+  // 传入函数时按任务类型选择 AIService，实现不同任务使用不同模型
+  constructor(aiService: AIService | ((task: AITaskType) => AIService), cacheService: CacheService) {
+    this.getAIService = typeof aiService === 'function' ? aiService : () => aiService
     this.cacheService = cacheService
   }
 
@@ -93,6 +146,163 @@ export class BookProcessingService {
     return groups
   }
 
+  /**
+   * 以有限的并发数处理各组，结果按组的顺序返回
+   * processGroup 抛出错误视为致命错误：不再开始新的组，并通过传给各组的 abortSignal 取消进行中的请求
+   * 单个组失败但其余组应继续时，processGroup 需要自行捕获错误并在返回的结果中标记失败，不能抛出
+   */
+  async processGroupsConcurrently<T>(
+    groups: TempChapterGroup[],
+    concurrency: number,
+    abortSignal: AbortSignal,
+    processGroup: (group: TempChapterGroup, index: number, abortSignal: AbortSignal) => Promise<T>
+  ): Promise<T[]> {
+    const results: T[] = new Array(groups.length)
+    const controller = new AbortController()
+    const abort = () => controller.abort()
+    abortSignal.addEventListener('abort', abort)
+    if (abortSignal.aborted) abort()
+
+    let nextIndex = 0
+    const runWorker = async () => {
+      while (nextIndex < groups.length && !controller.signal.aborted) {
+        const index = nextIndex++
+        try {
+          results[index] = await processGroup(groups[index], index, controller.signal)
+        } catch (error) {
+          controller.abort()
+          throw error
+        }
+      }
+    }
+
+    const workerCount = Math.max(1, Math.min(concurrency, groups.length))
+    console.log(`⚡ [DEBUG] 开始处理 ${groups.length} 个组，并发数: ${workerCount}`)
+
+    try {
+      await Promise.all(Array.from({ length: workerCount }, runWorker))
+    } finally {
+      abortSignal.removeEventListener('abort', abort)
+    }
+
+    if (abortSignal.aborted) {
+      throw new DOMException('Request was aborted', 'AbortError')
+    }
+    return results
+  }
+
+  /**
+   * 处理前预估各组及整书步骤的输入/输出 token（不扣除已缓存的结果）
+   */
+  estimateTokenUsage(
+    groups: TempChapterGroup[],
+    processingMode: 'summary' | 'mindmap' | 'combined-mindmap',
+    bookType: BookType,
+    customPrompt: string,
+    useCustomOnly: boolean
+  ): ProcessingEstimate {
+    const groupTask: AITaskType = processingMode === 'summary' ? 'chapterSummary' : 'chapterMindMap'
+    const customPromptTokens = customPrompt.trim() ? estimateTokens(customPrompt) : 0
+    const isFiction = bookType === 'fiction'
+    const groupEstimates: TokenEstimate[] = []
+    const bookLevel: TokenEstimate[] = []
+
+    if (processingMode === 'combined-mindmap') {
+      const chapters = groups.flatMap(group => group.chapters)
+      const chunks = splitIntoChunks(chapters, this.getAIService('combinedMindMap').getMaxInputTokens())
+      const templateTokens = estimateTokens(getChapterMindMapPrompt()) + customPromptTokens
+      bookLevel.push({
+        id: 'combinedMindMap',
+        label: 'combinedMindMap',
+        task: 'combinedMindMap',
+        requests: chunks.length,
+        inputTokens: chunks.reduce((sum, chunk) => sum + estimateTokens(chunk) + templateTokens, 0),
+        outputTokens: chunks.length * ESTIMATED_OUTPUT_TOKENS.combinedMindMap
+      })
+    } else {
+      for (const group of groups) {
+        const chunks = splitIntoChunks(group.chapters, this.getAIService(groupTask).getMaxInputTokens())
+        const title = group.tag || group.chapters[0].title
+        let inputTokens = 0
+        let outputTokens = 0
+
+        for (const chunk of chunks) {
+          const chunkTokens = estimateTokens(chunk)
+          if (processingMode === 'summary') {
+            const prompt = isFiction
+              ? getFictionChapterSummaryPrompt(title, '', customPrompt, useCustomOnly)
+              : getNonFictionChapterSummaryPrompt(title, '', customPrompt, useCustomOnly)
+            inputTokens += chunkTokens + estimateTokens(prompt)
+            // 内容较短的章节总结也较短
+            outputTokens += Math.min(ESTIMATED_OUTPUT_TOKENS.summary, chunkTokens)
+          } else {
+            inputTokens += chunkTokens + estimateTokens(getChapterMindMapPrompt()) + customPromptTokens
+            outputTokens += ESTIMATED_OUTPUT_TOKENS.mindmap
+          }
+        }
+
+        // 分块总结需要额外一次合并请求（思维导图在本地合并）
+        let requests = chunks.length
+        if (processingMode === 'summary' && chunks.length > 1) {
+          const mergePrompt = getChunkSummaryMergePrompt(title, [], customPrompt)
+          inputTokens += outputTokens + estimateTokens(mergePrompt)
+          outputTokens += ESTIMATED_OUTPUT_TOKENS.summary
+          requests++
+        }
+
+        groupEstimates.push({ id: group.groupId, label: title, task: groupTask, requests, inputTokens, outputTokens })
+      }
+
+      if (processingMode === 'summary') {
+        // 整书步骤的输入是各章节的总结，同组章节共用一份组总结
+        const summaryTokens = groups.reduce((sum, group, index) => {
+          const groupSummaryTokens = Math.min(groupEstimates[index].outputTokens, ESTIMATED_OUTPUT_TOKENS.summary)
+          return sum + group.chapters.reduce((chapterSum, chapter) =>
+            chapterSum + estimateTokens(chapter.title) + groupSummaryTokens, 0)
+        }, 0)
+
+        const connectionsPrompt = isFiction ? getFictionChapterConnectionsAnalysisPrompt('') : getChapterConnectionsAnalysisPrompt('')
+        bookLevel.push({
+          id: 'connections',
+          label: 'connections',
+          task: 'connections',
+          requests: 1,
+          inputTokens: summaryTokens + estimateTokens(connectionsPrompt),
+          outputTokens: ESTIMATED_OUTPUT_TOKENS.connections
+        })
+
+        if (isFiction) {
+          bookLevel.push({
+            id: 'characterRelationship',
+            label: 'characterRelationship',
+            task: 'characterRelationship',
+            requests: 1,
+            inputTokens: summaryTokens + estimateTokens(getFictionCharacterRelationshipPrompt('')),
+            outputTokens: ESTIMATED_OUTPUT_TOKENS.characterRelationship
+          })
+        }
+
+        const overallPrompt = isFiction ? getFictionOverallSummaryPrompt('', '') : getOverallSummaryPrompt('', '')
+        bookLevel.push({
+          id: 'overallSummary',
+          label: 'overallSummary',
+          task: 'overallSummary',
+          requests: 1,
+          inputTokens: summaryTokens + estimateTokens(overallPrompt),
+          outputTokens: ESTIMATED_OUTPUT_TOKENS.overallSummary
+        })
+      }
+    }
+
+    const all = [...groupEstimates, ...bookLevel]
+    return {
+      groups: groupEstimates,
+      bookLevel,
+      inputTokens: all.reduce((sum, item) => sum + item.inputTokens, 0),
+      outputTokens: all.reduce((sum, item) => sum + item.outputTokens, 0)
+    }
+  }
+
   /**
    * 处理文字总结模式的单个组
    */
@@ -104,20 +314,22 @@ export class BookProcessingService {
     customPrompt: string,
     useCustomOnly: boolean,
     abortSignal: AbortSignal,
-    onStreamUpdate?: (data: { summary: string; reasoning?: string }) => void
+    onStreamUpdate?: (data: { summary: string; reasoning?: string }) => void,
+    onChunkProgress?: (progress: ChunkProgress | null) => void
   ): Promise<{ group: ChapterGroup; chapters: Chapter[] }> {
-    let summary = await this.cacheService.getString(fileName, 'summary', group.groupId)
-    // TODO: Cache reasoning too if needed, for now we might lose reasoning on cache hit unless we cache it separately.
-    // Let's assume we don't cache reasoning for now or we need to update cache service.
-    // For this task, let's focus on streaming display.
-
-    let reasoning = ''
+    // 思考过程、模型和用量作为元数据和总结一起缓存，命中缓存时一并恢复
+    const cached = await this.cacheService.getContent(fileName, 'summary', group.groupId)
+    let summary = cached?.content
+    let reasoning = cached?.metadata?.reasoning || ''
+    let model = cached?.metadata?.model
+    let usage = cached?.metadata?.usage
+    const cachedAt = cached?.metadata?.createdAt
 
     if (!summary) {
       const combinedTitle = group.tag
         ? `${group.tag} (${group.chapters.map(ch => ch.title).join(', ')})`
         : group.chapters[0].title
-      const combinedContent = group.chapters.map(ch => `## ${ch.title}\n\n${ch.content}`).join('\n\n')
+      const chunks = this.splitGroupContent(group.chapters, 'chapterSummary')
 
       let currentSummary = ''
       let currentReasoning = ''
@@ -136,30 +348,72 @@ export class BookProcessingService {
         }
       }
 
-      const result = await this.aiService.summarizeChapter(
-        combinedTitle,
-        combinedContent,
-        bookType,
-        outputLanguage,
-        customPrompt,
-        useCustomOnly,
-        abortSignal,
-        onStreamUpdate ? handleStreamUpdate : undefined
-      )
+      let result: GeneratedContent
+      const models: string[] = []
+      const usages: Array<TokenUsage | undefined> = []
+      if (chunks.length === 1) {
+        result = await this.getAIService('chapterSummary').summarizeChapter(
+          combinedTitle,
+          chunks[0],
+          bookType,
+          outputLanguage,
+          customPrompt,
+          useCustomOnly,
+          abortSignal,
+          onStreamUpdate ? handleStreamUpdate : undefined
+        )
+      } else {
+        // map：逐块总结
+        const partialSummaries: string[] = []
+        for (let i = 0; i < chunks.length; i++) {
+          onChunkProgress?.({ stage: 'map', current: i + 1, total: chunks.length })
+          const partial = await this.getAIService('chapterSummary').summarizeChapter(
+            `${combinedTitle} (${i + 1}/${chunks.length})`,
+            chunks[i],
+            bookType,
+            outputLanguage,
+            customPrompt,
+            useCustomOnly,
+            abortSignal
+          )
+          partialSummaries.push(partial.content)
+          models.push(partial.model)
+          usages.push(partial.usage)
+        }
+
+        // reduce：合并各块总结，流式输出最终结果
+        onChunkProgress?.({ stage: 'reduce', current: 0, total: partialSummaries.length })
+        result = await this.reduceSummaries(
+          combinedTitle,
+          partialSummaries,
+          outputLanguage,
+          customPrompt,
+          abortSignal,
+          onStreamUpdate ? handleStreamUpdate : undefined
+        )
+        onChunkProgress?.(null)
+      }
 
       summary = result.content
       reasoning = result.reasoning
+      model = joinModels([...models, result.model])
+      usage = sumUsage([...usages, result.usage])
 
       // 确保最后一次更新包含完整内容
       if (onStreamUpdate) {
         onStreamUpdate({ summary, reasoning })
       }
 
-      await this.cacheService.setCache(fileName, 'summary', summary, group.groupId)
+      await this.cacheService.setContent(fileName, 'summary', summary, {
+        reasoning: reasoning || undefined,
+        model,
+        usage,
+        createdAt: Date.now()
+      }, group.groupId)
     } else {
       // 如果命中缓存，也通知一下（可选，视UI需求而定，这里为了统一行为可以调用一次）
       if (onStreamUpdate) {
-        onStreamUpdate({ summary })
+        onStreamUpdate({ summary, reasoning: reasoning || undefined })
       }
     }
 
@@ -170,7 +424,10 @@ export class BookProcessingService {
       chapterTitles: group.chapters.map(ch => ch.title),
       summary,
       reasoning: reasoning || undefined,
-      isLoading: false
+      isLoading: false,
+      model,
+      usage,
+      cachedAt
     }
 
     const processedChapters: Chapter[] = group.chapters.map(chapter => ({
@@ -191,19 +448,45 @@ export class BookProcessingService {
     fileName: string,
     outputLanguage: SupportedLanguage,
     customPrompt: string,
-    abortSignal: AbortSignal
+    abortSignal: AbortSignal,
+    onChunkProgress?: (progress: ChunkProgress | null) => void,
+    onStreamUpdate?: (data: { mindMap: MindElixirData }) => void
   ): Promise<{ group: ChapterGroup; chapters: Chapter[] }> {
-    let mindMap = await this.cacheService.getMindMap(fileName, 'mindmap', group.groupId)
+    // 模型作为元数据和思维导图一起缓存，命中缓存时一并恢复
+    const cached = await this.cacheService.getMindMapContent(fileName, 'mindmap', group.groupId)
+    let mindMap = cached?.content
+    let model = cached?.metadata?.model
+    const cachedAt = cached?.metadata?.createdAt
 
     if (!mindMap) {
-      const combinedContent = group.chapters.map(ch => `## ${ch.title}\n\n${ch.content}`).join('\n\n')
-      mindMap = await this.aiService.generateChapterMindMap(
-        combinedContent,
-        outputLanguage,
-        customPrompt,
-        abortSignal
-      )
-      await this.cacheService.setCache(fileName, 'mindmap', mindMap, group.groupId)
+      const chunks = this.splitGroupContent(group.chapters, 'chapterMindMap')
+      const rootTopic = group.tag || group.chapters[0].title
+      const partialMindMaps: MindElixirData[] = []
+      const models: string[] = []
+      for (let i = 0; i < chunks.length; i++) {
+        if (chunks.length > 1) {
+          onChunkProgress?.({ stage: 'map', current: i + 1, total: chunks.length })
+        }
+        const partial = await this.getAIService('chapterMindMap').generateChapterMindMap(
+          chunks[i],
+          outputLanguage,
+          customPrompt,
+          abortSignal,
+          onStreamUpdate ? this.createMindMapPreview(rootTopic, partialMindMaps, chunks.length, onStreamUpdate) : undefined
+        )
+        partialMindMaps.push(partial.mindMap)
+        models.push(partial.model)
+      }
+      model = joinModels(models)
+
+      if (partialMindMaps.length === 1) {
+        mindMap = partialMindMaps[0]
+      } else {
+        onChunkProgress?.({ stage: 'reduce', current: 0, total: partialMindMaps.length })
+        mindMap = this.mergeChunkMindMaps(rootTopic, partialMindMaps)
+        onChunkProgress?.(null)
+      }
+      await this.cacheService.setContent(fileName, 'mindmap', mindMap, { model, createdAt: Date.now() }, group.groupId)
     }
 
     if (!mindMap.nodeData) {
@@ -216,7 +499,9 @@ export class BookProcessingService {
       chapterIds: group.chapters.map(ch => ch.id),
       chapterTitles: group.chapters.map(ch => ch.title),
       mindMap,
-      isLoading: false
+      isLoading: false,
+      model,
+      cachedAt
     }
 
     const processedChapters: Chapter[] = group.chapters.map(chapter => ({
@@ -238,8 +523,11 @@ export class BookProcessingService {
     bookType: BookType,
     abortSignal: AbortSignal,
     onStreamUpdate?: (data: { content: string }) => void
-  ): Promise<string> {
-    let connections = await this.cacheService.getString(fileName, 'connections')
+  ): Promise<{ content: string; model?: string }> {
+    // 只使用基于相同章节生成的缓存，避免组失败或重新选择章节后沿用不完整的结果
+    const cached = getBookLevelCache(await this.cacheService.getContent(fileName, 'connections'), chapters)
+    let connections = cached?.content
+    let model = cached?.metadata?.model
 
     if (!connections) {
       console.log('🔄 [DEBUG] 缓存未命中，开始分析章节关联')
@@ -257,20 +545,22 @@ export class BookProcessingService {
         }
       } : undefined
 
-      connections = await this.aiService.analyzeConnections(
+      const result = await this.getAIService('connections').analyzeConnections(
         chapters,
         outputLanguage,
         bookType,
         abortSignal,
         handleStreamUpdate
       )
+      connections = result.content
+      model = result.model
 
       // 确保最后一次更新包含完整内容
       if (onStreamUpdate) {
         onStreamUpdate({ content: connections })
       }
 
-      await this.cacheService.setCache(fileName, 'connections', connections)
+      await this.cacheService.setContent(fileName, 'connections', connections, { model, createdAt: Date.now(), chapterIds: chapters.map(ch => ch.id) })
       console.log('💾 [DEBUG] 章节关联已缓存')
     } else {
       console.log('✅ [DEBUG] 使用缓存的章节关联')
@@ -280,7 +570,7 @@ export class BookProcessingService {
       }
     }
 
-    return connections
+    return { content: connections, model }
   }
 
   /**
@@ -294,8 +584,10 @@ export class BookProcessingService {
     bookType: BookType,
     abortSignal: AbortSignal,
     onStreamUpdate?: (data: { content: string }) => void
-  ): Promise<string> {
-    let overallSummary = await this.cacheService.getString(fileName, 'overall_summary')
+  ): Promise<{ content: string; model?: string }> {
+    const cached = getBookLevelCache(await this.cacheService.getContent(fileName, 'overall_summary'), chapters)
+    let overallSummary = cached?.content
+    let model = cached?.metadata?.model
 
     if (!overallSummary) {
       console.log('🔄 [DEBUG] 缓存未命中，开始生成全书总结')
@@ -313,7 +605,7 @@ export class BookProcessingService {
         }
       } : undefined
 
-      overallSummary = await this.aiService.generateOverallSummary(
+      const result = await this.getAIService('overallSummary').generateOverallSummary(
         bookTitle,
         chapters,
         outputLanguage,
@@ -321,13 +613,15 @@ export class BookProcessingService {
         abortSignal,
         handleStreamUpdate
       )
+      overallSummary = result.content
+      model = result.model
 
       // 确保最后一次更新包含完整内容
       if (onStreamUpdate) {
         onStreamUpdate({ content: overallSummary })
       }
 
-      await this.cacheService.setCache(fileName, 'overall_summary', overallSummary)
+      await this.cacheService.setContent(fileName, 'overall_summary', overallSummary, { model, createdAt: Date.now(), chapterIds: chapters.map(ch => ch.id) })
       console.log('💾 [DEBUG] 全书总结已缓存')
     } else {
       console.log('✅ [DEBUG] 使用缓存的全书总结')
@@ -337,7 +631,7 @@ export class BookProcessingService {
       }
     }
 
-    return overallSummary
+    return { content: overallSummary, model }
   }
 
   /**
@@ -349,24 +643,33 @@ export class BookProcessingService {
     outputLanguage: SupportedLanguage,
     bookType: BookType,
     abortSignal: AbortSignal
-  ): Promise<string> {
-    let characterRelationship = await this.cacheService.getString(fileName, 'character_relationship')
+  ): Promise<{ content: string; model?: string }> {
+    const cached = getBookLevelCache(await this.cacheService.getContent(fileName, 'character_relationship'), chapters)
+    let characterRelationship = cached?.content
+    let model = cached?.metadata?.model
 
     if (!characterRelationship) {
       console.log('🔄 [DEBUG] 缓存未命中，开始生成人物关系图')
-      characterRelationship = await this.aiService.generateCharacterRelationship(
+      const result = await this.getAIService('characterRelationship').generateCharacterRelationship(
         chapters,
         outputLanguage,
         bookType,
         abortSignal
       )
-      await this.cacheService.setCache(fileName, 'character_relationship', characterRelationship)
-      console.log('💾 [DEBUG] 人物关系图已缓存')
+      characterRelationship = result.content
+      model = result.model
+      // 无法解析的关系图不缓存，下次重新生成
+      if (result.parseError) {
+        console.warn('⚠️ [DEBUG] 人物关系图无法解析，跳过缓存:', result.parseError)
+      } else {
+        await this.cacheService.setContent(fileName, 'character_relationship', characterRelationship, { model, createdAt: Date.now(), chapterIds: chapters.map(ch => ch.id) })
+        console.log('💾 [DEBUG] 人物关系图已缓存')
+      }
     } else {
       console.log('✅ [DEBUG] 使用缓存的人物关系图')
     }
 
-    return characterRelationship
+    return { content: characterRelationship, model }
   }
 
 
@@ -378,7 +681,8 @@ export class BookProcessingService {
     bookTitle: string,
     chapters: Chapter[]
   ): Promise<MindElixirData> {
-    let combinedMindMap = await this.cacheService.getMindMap(fileName, 'merged_mindmap')
+    const cached = getBookLevelCache(await this.cacheService.getMindMapContent(fileName, 'merged_mindmap'), chapters)
+    let combinedMindMap = cached?.content
 
     if (!combinedMindMap) {
       console.log('🔄 [DEBUG] 缓存未命中，开始合并章节思维导图')
@@ -403,7 +707,8 @@ export class BookProcessingService {
         )
       }
 
-      await this.cacheService.setCache(fileName, 'merged_mindmap', combinedMindMap)
+      // 本地合并不调用模型，元数据只记录生成时间
+      await this.cacheService.setContent(fileName, 'merged_mindmap', combinedMindMap, { createdAt: Date.now(), chapterIds: chapters.map(ch => ch.id) })
       console.log('💾 [DEBUG] 合并思维导图已缓存')
     } else {
       console.log('✅ [DEBUG] 使用缓存的合并思维导图')
@@ -420,24 +725,203 @@ export class BookProcessingService {
     bookTitle: string,
     chapters: Chapter[],
     customPrompt: string,
-    abortSignal: AbortSignal
-  ): Promise<MindElixirData> {
-    let combinedMindMap = await this.cacheService.getMindMap(fileName, 'combined_mindmap')
+    abortSignal: AbortSignal,
+    onChunkProgress?: (progress: ChunkProgress | null) => void,
+    onStreamUpdate?: (data: { mindMap: MindElixirData }) => void
+  ): Promise<{ mindMap: MindElixirData; model?: string }> {
+    const cached = getBookLevelCache(await this.cacheService.getMindMapContent(fileName, 'combined_mindmap'), chapters)
+    let combinedMindMap = cached?.content
+    let model = cached?.metadata?.model
 
     if (!combinedMindMap) {
       console.log('🔄 [DEBUG] 缓存未命中，开始生成整书思维导图')
-      combinedMindMap = await this.aiService.generateCombinedMindMap(
-        bookTitle,
-        chapters,
-        customPrompt,
-        abortSignal
-      )
-      await this.cacheService.setCache(fileName, 'combined_mindmap', combinedMindMap)
+      const chunks = this.splitGroupContent(chapters, 'combinedMindMap')
+      if (chunks.length === 1) {
+        const result = await this.getAIService('combinedMindMap').generateCombinedMindMap(
+          bookTitle,
+          chapters,
+          customPrompt,
+          abortSignal,
+          onStreamUpdate ? this.createMindMapPreview(bookTitle, [], 1, onStreamUpdate) : undefined
+        )
+        combinedMindMap = result.mindMap
+        model = result.model
+      } else {
+        // 整书内容超出上下文：每块生成一部分导图，再合并到同一个根节点
+        const partialMindMaps: MindElixirData[] = []
+        const models: string[] = []
+        for (let i = 0; i < chunks.length; i++) {
+          onChunkProgress?.({ stage: 'map', current: i + 1, total: chunks.length })
+          const partial = await this.getAIService('combinedMindMap').generateCombinedMindMap(
+            bookTitle,
+            [{ id: `chunk_${i + 1}`, title: `${bookTitle} (${i + 1}/${chunks.length})`, content: chunks[i] }],
+            customPrompt,
+            abortSignal,
+            onStreamUpdate ? this.createMindMapPreview(bookTitle, partialMindMaps, chunks.length, onStreamUpdate) : undefined
+          )
+          partialMindMaps.push(partial.mindMap)
+          models.push(partial.model)
+        }
+        onChunkProgress?.({ stage: 'reduce', current: 0, total: partialMindMaps.length })
+        combinedMindMap = this.mergeChunkMindMaps(bookTitle, partialMindMaps)
+        model = joinModels(models)
+        onChunkProgress?.(null)
+      }
+      await this.cacheService.setContent(fileName, 'combined_mindmap', combinedMindMap, { model, createdAt: Date.now(), chapterIds: chapters.map(ch => ch.id) })
       console.log('💾 [DEBUG] 整书思维导图已缓存')
     } else {
       console.log('✅ [DEBUG] 使用缓存的整书思维导图')
     }
 
-    return combinedMindMap
+    return { mindMap: combinedMindMap, model }
+  }
+
+  /**
+   * 按模型上下文把章节切分为分块，未超出上限时只有一块（与整组请求的内容相同）
+   */
+  private splitGroupContent(chapters: { title: string; content: string }[], task: AITaskType): string[] {
+    const maxInputTokens = this.getAIService(task).getMaxInputTokens()
+    const chunks = splitIntoChunks(chapters, maxInputTokens)
+    if (chunks.length > 1) {
+      const totalTokens = chapters.reduce((sum, ch) => sum + estimateTokens(ch.content), 0)
+      console.log(`✂️ [DEBUG] 内容约 ${totalTokens} tokens，超出单次上限 ${maxInputTokens}，分为 ${chunks.length} 块处理`)
+    }
+    return chunks
+  }
+
+  /**
+   * 合并分块总结：合并后的输入仍超出上限时，先按批次逐层合并
+   */
+  private async reduceSummaries(
+    title: string,
+    partialSummaries: string[],
+    outputLanguage: SupportedLanguage,
+    customPrompt: string,
+    abortSignal: AbortSignal,
+    onStreamUpdate?: (data: { content: string; reasoning?: string }) => void
+  ): Promise<GeneratedContent> {
+    const aiService = this.getAIService('chapterSummary')
+    const maxInputTokens = aiService.getMaxInputTokens()
+    let summaries = partialSummaries
+    const usages: Array<TokenUsage | undefined> = []
+
+    while (summaries.length > 2 && estimateTokens(summaries.join('\n\n')) > maxInputTokens) {
+      const batches: string[][] = []
+      let batchTokens = 0
+      for (const summary of summaries) {
+        const tokens = estimateTokens(summary)
+        const lastBatch = batches[batches.length - 1]
+        if (lastBatch && batchTokens + tokens <= maxInputTokens) {
+          lastBatch.push(summary)
+          batchTokens += tokens
+        } else {
+          batches.push([summary])
+          batchTokens = tokens
+        }
+      }
+      // 每个总结都单独成批说明无法再合并，直接进入最终合并
+      if (batches.length === summaries.length) break
+
+      const merged: string[] = []
+      for (const batch of batches) {
+        if (batch.length === 1) {
+          merged.push(batch[0])
+          continue
+        }
+        const result = await aiService.mergeChunkSummaries(title, batch, outputLanguage, customPrompt, abortSignal)
+        merged.push(result.content)
+        usages.push(result.usage)
+      }
+      summaries = merged
+    }
+
+    const result = await aiService.mergeChunkSummaries(title, summaries, outputLanguage, customPrompt, abortSignal, onStreamUpdate)
+    return { ...result, usage: sumUsage([...usages, result.usage]) }
+  }
+
+  /**
+   * 流式预览：分块处理时把已完成的分块和当前分块的部分结果合并后一起展示
+   */
+  private createMindMapPreview(
+    rootTopic: string,
+    completedMindMaps: MindElixirData[],
+    totalChunks: number,
+    onStreamUpdate: (data: { mindMap: MindElixirData }) => void
+  ) {
+    return (partialMindMap: MindElixirData) => {
+      onStreamUpdate({
+        mindMap: totalChunks === 1
+          ? partialMindMap
+          : this.mergeChunkMindMaps(rootTopic, [...completedMindMaps, partialMindMap])
+      })
+    }
+  }
+
+  /**
+   * 合并分块思维导图：各块根节点的子节点挂到同一个根节点下，
+   * 节点 ID 加上分块前缀避免冲突，Summary 的父节点和索引随之调整
+   */
+  private mergeChunkMindMaps(rootTopic: string, mindMaps: MindElixirData[]): MindElixirData {
+    type MindMapNode = MindElixirData['nodeData']
+    const rootId = 'root'
+    const children: MindMapNode[] = []
+    const summaries: Summary[] = []
+
+    const prefixNode = (node: MindMapNode, prefix: string): MindMapNode => ({
+      ...node,
+      id: `${prefix}${node.id}`,
+      children: node.children?.map(child => prefixNode(child, prefix))
+    })
+
+    mindMaps.forEach((mindMap, index) => {
+      if (!mindMap.nodeData) return
+      const prefix = `c${index + 1}_`
+      const offset = children.length
+      const chunkRootId = mindMap.nodeData.id
+      children.push(...(mindMap.nodeData.children || []).map(child => prefixNode(child, prefix)))
+
+      for (const summary of mindMap.summaries || []) {
+        const isRootSummary = summary.parent === chunkRootId
+        summaries.push({
+          ...summary,
+          id: `${prefix}${summary.id}`,
+          parent: isRootSummary ? rootId : `${prefix}${summary.parent}`,
+          start: isRootSummary ? summary.start + offset : summary.start,
+          end: isRootSummary ? summary.end + offset : summary.end
+        })
+      }
+    })
+
+    return {
+      nodeData: {
+        id: rootId,
+        topic: rootTopic,
+        children
+      },
+      arrows: [],
+      summaries
+    }
   }
 }
+
+// 分块处理时各块可能由不同模型生成（中途切换了备用模型），去重后拼接
+// 整书结果的缓存只有在生成时使用的章节与当前章节一致时才有效，没有记录章节的旧缓存视为失效
+function getBookLevelCache<T extends { metadata?: CacheMetadata }>(cached: T | null, chapters: Chapter[]): T | null {
+  const chapterIds = cached?.metadata?.chapterIds
+  if (!chapterIds || chapterIds.length !== chapters.length) return null
+  return chapterIds.every((id, index) => id === chapters[index].id) ? cached : null
+}
+
+function joinModels(models: string[]): string {
+  return [...new Set(models)].join(', ')
+}
+
+// 累加多次请求的用量，服务商都没有返回用量时为空
+function sumUsage(usages: Array<TokenUsage | undefined>): TokenUsage | undefined {
+  const reported = usages.filter((usage): usage is TokenUsage => !!usage)
+  if (reported.length === 0) return undefined
+  return reported.reduce((total, usage) => ({
+    inputTokens: total.inputTokens + usage.inputTokens,
+    outputTokens: total.outputTokens + usage.outputTokens
+  }), { inputTokens: 0, outputTokens: 0 })
+}
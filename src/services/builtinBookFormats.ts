@@ -0,0 +1,89 @@
+import { createElement } from 'react'
+import { registerBookFormat } from './bookFormat'
+import { EpubProcessor } from './epubProcessor'
+import { PdfProcessor } from './pdfProcessor'
+import { MobiProcessor, type BookData as MobiBookData, type ChapterData as MobiChapterData } from './mobiProcessor'
+import { TextProcessor } from './textProcessor'
+import { DocxProcessor, type BookData as DocxBookData, type ChapterData as DocxChapterData } from './docxProcessor'
+import { Fb2Processor, type BookData as Fb2BookData, type ChapterData as Fb2ChapterData } from './fb2Processor'
+import { EpubReader } from '@/components/EpubReader'
+import { PdfReader } from '@/components/PdfReader'
+import { TextReader } from '@/components/TextReader'
+import { HtmlChapterReader } from '@/components/HtmlChapterReader'
+
+// 注册内置的电子书格式，在 main.tsx 中导入一次即可
+
+const epubProcessor = new EpubProcessor()
+registerBookFormat({
+  id: 'epub',
+  extensions: ['.epub'],
+  mimeTypes: ['application/epub+zip'],
+  parse: file => epubProcessor.parseEpub(file),
+  extractChapters: (_file, bookData, options) =>
+    epubProcessor.extractChapters(bookData.book, options.skipNonEssentialChapters, options.maxSubChapterDepth, options.forceUseSpine, options.includeNotes),
+  renderReader: props => createElement(EpubReader, props)
+})
+
+const pdfProcessor = new PdfProcessor()
+registerBookFormat({
+  id: 'pdf',
+  extensions: ['.pdf'],
+  mimeTypes: ['application/pdf'],
+  parse: file => pdfProcessor.parsePdf(file),
+  extractChapters: (file, _bookData, options) =>
+    pdfProcessor.extractChapters(file, options.skipNonEssentialChapters, options.maxSubChapterDepth, options.removeHeadersFooters),
+  renderReader: props => createElement(PdfReader, props)
+})
+
+const mobiProcessor = new MobiProcessor()
+// 阅读器按 getChapterHTML 缓存章节HTML，需要在各次渲染间保持同一引用
+const getMobiChapterHTML = (bookData: MobiBookData, chapter: MobiChapterData) => mobiProcessor.getChapterHTML(bookData, chapter)
+registerBookFormat({
+  id: 'mobi',
+  extensions: ['.mobi', '.azw3', '.azw'],
+  mimeTypes: ['application/x-mobipocket-ebook', 'application/vnd.amazon.ebook'],
+  parse: file => mobiProcessor.parseMobi(file),
+  extractChapters: (_file, bookData, options) =>
+    mobiProcessor.extractChapters(bookData, options.skipNonEssentialChapters, options.maxSubChapterDepth),
+  // MOBI文本已在内存中解压，按章节的字节范围截取HTML
+  renderReader: props => createElement(HtmlChapterReader<MobiBookData, MobiChapterData>, { ...props, getChapterHTML: getMobiChapterHTML }),
+  release: bookData => mobiProcessor.releaseBook(bookData)
+})
+
+const textProcessor = new TextProcessor()
+registerBookFormat({
+  id: 'text',
+  extensions: ['.txt', '.md', '.markdown'],
+  mimeTypes: ['text/plain', 'text/markdown'],
+  parse: file => textProcessor.parseText(file),
+  extractChapters: (_file, bookData, options) =>
+    textProcessor.extractChapters(bookData, options.skipNonEssentialChapters, options.maxSubChapterDepth),
+  renderReader: props => createElement(TextReader, props)
+})
+
+const docxProcessor = new DocxProcessor()
+const getDocxChapterHTML = (bookData: DocxBookData, chapter: DocxChapterData) => docxProcessor.getChapterHTML(bookData, chapter)
+registerBookFormat({
+  id: 'docx',
+  extensions: ['.docx'],
+  mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+  parse: file => docxProcessor.parseDocx(file),
+  extractChapters: (_file, bookData, options) =>
+    docxProcessor.extractChapters(bookData, options.skipNonEssentialChapters, options.maxSubChapterDepth),
+  // DOCX解析时已转换为HTML块，按章节的块范围拼接
+  renderReader: props => createElement(HtmlChapterReader<DocxBookData, DocxChapterData>, { ...props, getChapterHTML: getDocxChapterHTML }),
+  release: bookData => docxProcessor.releaseBook(bookData)
+})
+
+const fb2Processor = new Fb2Processor()
+const getFb2ChapterHTML = (bookData: Fb2BookData, chapter: Fb2ChapterData) => fb2Processor.getChapterHTML(bookData, chapter)
+registerBookFormat({
+  id: 'fb2',
+  extensions: ['.fb2', '.fb2.zip'],
+  mimeTypes: ['application/x-fictionbook+xml'],
+  parse: file => fb2Processor.parseFb2(file),
+  extractChapters: (_file, bookData, options) =>
+    fb2Processor.extractChapters(bookData, options.skipNonEssentialChapters, options.maxSubChapterDepth),
+  // FB2 文档已在内存中，渲染章节对应的 section
+  renderReader: props => createElement(HtmlChapterReader<Fb2BookData, Fb2ChapterData>, { ...props, getChapterHTML: getFb2ChapterHTML })
+})
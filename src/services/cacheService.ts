@@ -1,5 +1,6 @@
 import localforage from 'localforage'
 import type { MindElixirData } from 'mind-elixir'
+import type { AITaskType, TokenUsage } from './aiService'
 
 // 定义缓存键类型
 export type CacheKeyType =
@@ -17,12 +18,50 @@ export type CacheKeyType =
   | 'chapter_tags'     // 章节标签
   | 'custom_prompt'    // 自定义提示词
   | 'use_custom_only'  // 仅使用自定义提示词
+  | 'token_usage'      // 累计的 token 用量和费用
+
+// 生成内容时附带缓存的元数据，命中缓存时用于展示
+export interface CacheMetadata {
+  reasoning?: string
+  model?: string
+  usage?: TokenUsage
+  createdAt: number
+  chapterIds?: string[] // 整书结果生成时使用的章节，章节变化后缓存失效
+}
+
+// 带元数据的缓存内容（文本或思维导图），旧版本的缓存直接存为字符串或思维导图数据
+export interface CachedContent<T extends string | MindElixirData = string> {
+  content: T
+  metadata: CacheMetadata
+}
+
+// 某类任务累计的 token 用量
+export interface TaskTokenUsage extends TokenUsage {
+  requests: number
+  cost?: number // 只累计设置了单价的模型的费用，都未设置时为空
+}
+
+// 一本书按任务类型累计的 token 用量
+export type BookTokenUsage = Partial<Record<AITaskType, TaskTokenUsage>>
 
 // 定义缓存值的类型
-export type CacheValue = string | MindElixirData | string[] | Record<string, string> | boolean | null
+export type CacheValue = string | CachedContent<string | MindElixirData> | MindElixirData | string[] | Record<string, string> | BookTokenUsage | boolean | null
+
+export function isCachedContent(value: CacheValue | undefined): value is CachedContent {
+  return !!value && typeof value === 'object' && !Array.isArray(value) &&
+    typeof (value as CachedContent).content === 'string' && typeof (value as CachedContent).metadata === 'object'
+}
+
+export function isCachedMindMap(value: CacheValue | undefined): value is CachedContent<MindElixirData> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false
+  const { content, metadata } = value as CachedContent<MindElixirData>
+  return !!content && typeof content === 'object' && 'nodeData' in content && typeof metadata === 'object'
+}
 
 export class CacheService {
   private store: LocalForage
+  // 多个组并发处理时串行写入用量，避免读写交错丢失数据
+  private usageQueue: Promise<unknown> = Promise.resolve()
 
   constructor() {
     // 配置 localForage 实例
@@ -47,18 +86,34 @@ export class CacheService {
     }
   }
 
-  // 获取字符串类型的缓存值
+  // 获取字符串类型的缓存值（带元数据的缓存只返回内容）
   async getString(filename: string, type: CacheKeyType, chapterId?: string): Promise<string | null> {
     const key = CacheService.generateKey(filename, type, chapterId)
     const value = await this.store.getItem<CacheValue>(key)
+    if (isCachedContent(value)) return value.content
     return typeof value === 'string' ? value : null
   }
 
-  // 获取思维导图类型的缓存值
+  // 获取文本缓存及其元数据，旧版本的字符串缓存没有元数据
+  async getContent(filename: string, type: CacheKeyType, chapterId?: string): Promise<{ content: string; metadata?: CacheMetadata } | null> {
+    const key = CacheService.generateKey(filename, type, chapterId)
+    const value = await this.store.getItem<CacheValue>(key)
+    if (isCachedContent(value)) return value
+    return typeof value === 'string' ? { content: value } : null
+  }
+
+  // 获取思维导图类型的缓存值（带元数据的缓存只返回思维导图）
   async getMindMap(filename: string, type: CacheKeyType, chapterId?: string): Promise<MindElixirData | null> {
+    const cached = await this.getMindMapContent(filename, type, chapterId)
+    return cached ? cached.content : null
+  }
+
+  // 获取思维导图缓存及其元数据，旧版本直接缓存的思维导图没有元数据
+  async getMindMapContent(filename: string, type: CacheKeyType, chapterId?: string): Promise<{ content: MindElixirData; metadata?: CacheMetadata } | null> {
     const key = CacheService.generateKey(filename, type, chapterId)
     const value = await this.store.getItem<CacheValue>(key)
-    return value && typeof value === 'object' && 'nodeData' in value ? value as MindElixirData : null
+    if (isCachedMindMap(value)) return value
+    return value && typeof value === 'object' && 'nodeData' in value ? { content: value as MindElixirData } : null
   }
 
   // 获取选中章节的缓存值
@@ -72,7 +127,7 @@ export class CacheService {
   async getChapterTags(filename: string): Promise<Record<string, string> | null> {
     const key = CacheService.generateKey(filename, 'chapter_tags')
     const value = await this.store.getItem<CacheValue>(key)
-    return value && typeof value === 'object' && !Array.isArray(value) && !('nodeData' in value)
+    return value && typeof value === 'object' && !Array.isArray(value) && !('nodeData' in value) && !isCachedContent(value) && !isCachedMindMap(value)
       ? value as Record<string, string>
       : null
   }
@@ -83,6 +138,11 @@ export class CacheService {
     await this.store.setItem(key, value)
   }
 
+  // 缓存文本或思维导图及其元数据
+  async setContent(filename: string, type: CacheKeyType, content: string | MindElixirData, metadata: CacheMetadata, chapterId?: string): Promise<void> {
+    await this.setCache(filename, type, { content, metadata }, chapterId)
+  }
+
   // 缓存选中的章节
   async setSelectedChapters(filename: string, selectedChapters: Set<string>): Promise<void> {
     const key = CacheService.generateKey(filename, 'selected_chapters')
@@ -123,6 +183,35 @@ export class CacheService {
     await this.store.setItem(key, useCustomOnly)
   }
 
+  // 获取累计的 token 用量
+  async getTokenUsage(filename: string): Promise<BookTokenUsage | null> {
+    const key = CacheService.generateKey(filename, 'token_usage')
+    const value = await this.store.getItem<CacheValue>(key)
+    return value && typeof value === 'object' && !Array.isArray(value) ? value as BookTokenUsage : null
+  }
+
+  // 累加一次请求的用量，返回累加后的结果
+  async addTokenUsage(filename: string, task: AITaskType, usage: TokenUsage, cost: number | null): Promise<BookTokenUsage> {
+    const update = this.usageQueue.then(async () => {
+      const key = CacheService.generateKey(filename, 'token_usage')
+      const bookUsage = await this.getTokenUsage(filename) || {}
+      const taskUsage = bookUsage[task]
+      const updated: BookTokenUsage = {
+        ...bookUsage,
+        [task]: {
+          inputTokens: (taskUsage?.inputTokens || 0) + usage.inputTokens,
+          outputTokens: (taskUsage?.outputTokens || 0) + usage.outputTokens,
+          requests: (taskUsage?.requests || 0) + 1,
+          cost: cost === null ? taskUsage?.cost : (taskUsage?.cost || 0) + cost
+        }
+      }
+      await this.store.setItem(key, updated)
+      return updated
+    })
+    this.usageQueue = update.catch(() => undefined)
+    return update
+  }
+
   // 删除缓存
   private async deleteCache(filename: string, type: CacheKeyType, chapterId?: string): Promise<boolean> {
     const key = CacheService.generateKey(filename, type, chapterId)
@@ -241,7 +330,7 @@ export class CacheService {
       }
     }
 
-    const bookMatch = key.match(/^book_(.+)_(connections|overall_summary|character_relationship|combined_mindmap|merged_mindmap|mindmap_arrows|selected_chapters|chapter_tags|custom_prompt|use_custom_only)$/)
+    const bookMatch = key.match(/^book_(.+)_(connections|overall_summary|character_relationship|combined_mindmap|merged_mindmap|mindmap_arrows|selected_chapters|chapter_tags|custom_prompt|use_custom_only|token_usage)$/)
     if (bookMatch) {
       return {
         bookName: bookMatch[1],
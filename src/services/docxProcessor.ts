@@ -0,0 +1,472 @@
+import JSZip from 'jszip'
+import { SKIP_CHAPTER_KEYWORDS } from './constants'
+import { htmlToMarkdown } from '../utils/htmlToMarkdown'
+import type { ChapterData as BaseChapterData, BookData as BaseBookData } from './bookFormat'
+
+export interface ChapterData extends BaseChapterData {
+  // DOCX特有的定位信息：章节在文档块列表中的起止位置，用于阅读器显示
+  startBlock?: number
+  endBlock?: number
+}
+
+// 文档正文按顺序拆成的块：标题单独成块，列表合并为一个块
+export interface DocxBlock {
+  html: string
+  headingLevel?: number
+  headingText?: string
+}
+
+export interface BookData extends BaseBookData {
+  blocks: DocxBlock[]
+  // 块中引用的图片 blob URL，不再使用这本书时需要释放
+  imageUrls: string[]
+}
+
+interface ParagraphStyle {
+  name: string
+  basedOn?: string
+  outlineLevel?: number
+}
+
+interface DocxContext {
+  styles: Map<string, ParagraphStyle>
+  // numId -> 各级列表是否为有序列表
+  numbering: Map<string, Map<number, boolean>>
+  // 关系ID -> 超链接地址或图片 blob URL
+  hyperlinks: Map<string, string>
+  images: Map<string, string>
+}
+
+interface ListItem {
+  level: number
+  ordered: boolean
+  html: string
+}
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main'
+const R_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships'
+
+export class DocxProcessor {
+  async parseDocx(file: File): Promise<BookData> {
+    try {
+      const zip = await JSZip.loadAsync(file)
+      const documentXml = await zip.file('word/document.xml')?.async('string')
+      if (!documentXml) {
+        throw new Error('未找到 word/document.xml，文件可能不是有效的DOCX文档')
+      }
+
+      const context: DocxContext = {
+        styles: parseStyles(await readXml(zip, 'word/styles.xml')),
+        numbering: parseNumbering(await readXml(zip, 'word/numbering.xml')),
+        hyperlinks: new Map(),
+        images: new Map()
+      }
+      await loadRelationships(zip, context)
+
+      const documentDoc = new DOMParser().parseFromString(documentXml, 'application/xml')
+      const body = documentDoc.getElementsByTagNameNS(W_NS, 'body')[0]
+      const blocks = body ? buildBlocks(body, context) : []
+
+      // 书名和作者优先取自文档属性，没有时使用“标题”样式的段落
+      const coreDoc = await readXml(zip, 'docProps/core.xml')
+      const coreTitle = coreDoc?.getElementsByTagName('dc:title')[0]?.textContent?.trim()
+      const coreAuthor = coreDoc?.getElementsByTagName('dc:creator')[0]?.textContent?.trim()
+      const titleBlock = blocks.find(block => block.headingLevel === 0)
+
+      const title = coreTitle || titleBlock?.headingText || file.name.replace(/\.docx$/i, '') || '未知标题'
+      const author = coreAuthor || '未知作者'
+
+      console.log(`📚 [DEBUG] DOCX解析完成:`, { title, author, blocks: blocks.length })
+
+      return { title, author, blocks, imageUrls: [...context.images.values()] }
+    } catch (error) {
+      throw new Error(`解析DOCX文件失败: ${error instanceof Error ? error.message : '未知错误'}`)
+    }
+  }
+
+  async extractChapters(bookData: BookData, skipNonEssentialChapters: boolean = true, maxSubChapterDepth: number = 0): Promise<ChapterData[]> {
+    try {
+      const { blocks } = bookData
+      const headingLevels = blocks
+        .map(block => block.headingLevel)
+        .filter((level): level is number => level !== undefined && level > 0)
+
+      // 以文档中最高的标题级别（通常是标题1）作为章节，标题2等作为子章节
+      const chapterLevel = headingLevels.length > 0 ? Math.min(...headingLevels) : undefined
+      const chapterInfos: { title: string, startBlock: number, endBlock: number, depth: number }[] = []
+
+      if (chapterLevel !== undefined) {
+        const maxLevel = chapterLevel + maxSubChapterDepth
+        blocks.forEach((block, index) => {
+          if (block.headingLevel !== undefined && block.headingLevel >= chapterLevel && block.headingLevel <= maxLevel) {
+            chapterInfos.push({
+              title: block.headingText || `章节 ${chapterInfos.length + 1}`,
+              startBlock: index,
+              endBlock: blocks.length,
+              depth: block.headingLevel - chapterLevel
+            })
+          }
+        })
+        chapterInfos.forEach((info, index) => {
+          if (index + 1 < chapterInfos.length) info.endBlock = chapterInfos[index + 1].startBlock
+        })
+      }
+
+      // 第一个标题之前的内容（或没有任何标题的文档）单独作为一章
+      const firstStart = chapterInfos.length > 0 ? chapterInfos[0].startBlock : blocks.length
+      if (firstStart > 0) {
+        chapterInfos.unshift({ title: chapterInfos.length > 0 ? '开篇' : bookData.title, startBlock: 0, endBlock: firstStart, depth: 0 })
+      }
+      console.log(`📚 [DEBUG] 找到 ${chapterInfos.length} 个章节信息`, chapterInfos)
+
+      const chapters: ChapterData[] = []
+      for (let i = 0; i < chapterInfos.length; i++) {
+        const chapterInfo = chapterInfos[i]
+
+        if (skipNonEssentialChapters && this.shouldSkipChapter(chapterInfo.title)) {
+          console.log(`⏭️ [DEBUG] 跳过无关键内容章节: "${chapterInfo.title}"`)
+          continue
+        }
+
+        // 图片对AI处理没有帮助，转换前去掉
+        const html = blocks
+          .slice(chapterInfo.startBlock, chapterInfo.endBlock)
+          .map(block => block.html)
+          .join('\n')
+          .replace(/<img[^>]*>/g, '')
+        const chapterContent = htmlToMarkdown(html)
+
+        if (chapterContent.trim().length > 100) {
+          chapters.push({
+            id: `${i}-${chapterInfo.title}`, // 使用索引和标题组合作为ID，确保唯一性
+            title: chapterInfo.title,
+            content: chapterContent,
+            startBlock: chapterInfo.startBlock,
+            endBlock: chapterInfo.endBlock,
+            depth: chapterInfo.depth
+          })
+        }
+      }
+
+      console.log(`📊 [DEBUG] 最终提取到 ${chapters.length} 个章节`)
+
+      if (chapters.length === 0) {
+        throw new Error('未找到有效的章节内容')
+      }
+
+      return chapters
+    } catch (error) {
+      console.error(`❌ [DEBUG] 提取章节失败:`, error)
+      throw new Error(`提取章节失败: ${error instanceof Error ? error.message : '未知错误'}`)
+    }
+  }
+
+  // 获取章节的HTML内容（用于阅读器显示）
+  // 释放解析时为图片创建的 blob URL
+  releaseBook(bookData: BookData) {
+    bookData.imageUrls.forEach(url => URL.revokeObjectURL(url))
+  }
+
+  getChapterHTML(bookData: BookData, chapter: ChapterData): string {
+    if (chapter.startBlock === undefined || chapter.endBlock === undefined) {
+      return ''
+    }
+    return bookData.blocks
+      .slice(chapter.startBlock, chapter.endBlock)
+      .map(block => block.html)
+      .join('\n')
+  }
+
+  private shouldSkipChapter(title: string): boolean {
+    if (!title) return false
+
+    return SKIP_CHAPTER_KEYWORDS.some(keyword =>
+      title.toLowerCase().includes(keyword.toLowerCase())
+    )
+  }
+}
+
+async function readXml(zip: JSZip, path: string): Promise<Document | null> {
+  const xml = await zip.file(path)?.async('string')
+  return xml ? new DOMParser().parseFromString(xml, 'application/xml') : null
+}
+
+function wAttr(element: Element | undefined, name: string): string | null {
+  return element ? element.getAttributeNS(W_NS, name) ?? element.getAttribute(`w:${name}`) : null
+}
+
+function wChild(element: Element, localName: string): Element | undefined {
+  return Array.from(element.children).find(child => child.localName === localName)
+}
+
+// 读取段落样式：名称、继承关系和大纲级别，用于识别标题
+function parseStyles(stylesDoc: Document | null): Map<string, ParagraphStyle> {
+  const styles = new Map<string, ParagraphStyle>()
+  if (!stylesDoc) return styles
+
+  for (const style of Array.from(stylesDoc.getElementsByTagNameNS(W_NS, 'style'))) {
+    if (wAttr(style, 'type') !== 'paragraph') continue
+    const styleId = wAttr(style, 'styleId')
+    if (!styleId) continue
+
+    const pPr = wChild(style, 'pPr')
+    const outlineLevel = pPr ? wAttr(wChild(pPr, 'outlineLvl'), 'val') : null
+    styles.set(styleId, {
+      name: wAttr(wChild(style, 'name'), 'val') || styleId,
+      basedOn: wAttr(wChild(style, 'basedOn'), 'val') || undefined,
+      outlineLevel: outlineLevel !== null ? parseInt(outlineLevel, 10) : undefined
+    })
+  }
+
+  return styles
+}
+
+// 读取列表编号定义，区分有序列表和项目符号列表
+function parseNumbering(numberingDoc: Document | null): Map<string, Map<number, boolean>> {
+  const numbering = new Map<string, Map<number, boolean>>()
+  if (!numberingDoc) return numbering
+
+  const abstractNums = new Map<string, Map<number, boolean>>()
+  for (const abstractNum of Array.from(numberingDoc.getElementsByTagNameNS(W_NS, 'abstractNum'))) {
+    const levels = new Map<number, boolean>()
+    for (const lvl of Array.from(abstractNum.getElementsByTagNameNS(W_NS, 'lvl'))) {
+      const format = wAttr(wChild(lvl, 'numFmt'), 'val')
+      levels.set(parseInt(wAttr(lvl, 'ilvl') || '0', 10), !!format && format !== 'bullet' && format !== 'none')
+    }
+    abstractNums.set(wAttr(abstractNum, 'abstractNumId') || '', levels)
+  }
+
+  for (const num of Array.from(numberingDoc.getElementsByTagNameNS(W_NS, 'num'))) {
+    const abstractNumId = wAttr(wChild(num, 'abstractNumId'), 'val') || ''
+    numbering.set(wAttr(num, 'numId') || '', abstractNums.get(abstractNumId) || new Map())
+  }
+
+  return numbering
+}
+
+// 读取文档关系：超链接地址，以及图片（转为 blob URL 供阅读器显示）
+async function loadRelationships(zip: JSZip, context: DocxContext) {
+  const relsDoc = await readXml(zip, 'word/_rels/document.xml.rels')
+  if (!relsDoc) return
+
+  for (const rel of Array.from(relsDoc.getElementsByTagName('Relationship'))) {
+    const id = rel.getAttribute('Id')
+    const target = rel.getAttribute('Target')
+    const type = rel.getAttribute('Type') || ''
+    if (!id || !target) continue
+
+    if (type.endsWith('/hyperlink')) {
+      context.hyperlinks.set(id, target)
+    } else if (type.endsWith('/image')) {
+      const path = target.startsWith('/') ? target.slice(1) : `word/${target}`
+      const imageFile = zip.file(path)
+      if (imageFile) {
+        const blob = await imageFile.async('blob')
+        context.images.set(id, URL.createObjectURL(blob))
+      }
+    }
+  }
+}
+
+// 根据段落样式（沿继承链）判断标题级别：0 表示文档标题，1-6 对应标题1-6
+function getHeadingLevel(styleId: string | null, paragraphOutlineLevel: string | null, context: DocxContext): number | undefined {
+  if (paragraphOutlineLevel !== null) {
+    const level = parseInt(paragraphOutlineLevel, 10)
+    if (level >= 0 && level < 6) return level + 1
+  }
+
+  let currentId = styleId
+  for (let guard = 0; currentId && guard < 10; guard++) {
+    const style = context.styles.get(currentId)
+    const name = (style?.name || currentId).toLowerCase()
+
+    if (name === 'title') return 0
+    const headingMatch = name.match(/^heading\s*(\d)$/)
+    if (headingMatch) return parseInt(headingMatch[1], 10)
+    if (style?.outlineLevel !== undefined && style.outlineLevel < 6) return style.outlineLevel + 1
+
+    currentId = style?.basedOn || null
+  }
+
+  return undefined
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function isToggleOn(rPr: Element | undefined, name: string): boolean {
+  const toggle = rPr ? wChild(rPr, name) : undefined
+  if (!toggle) return false
+  const value = wAttr(toggle, 'val')
+  return value !== '0' && value !== 'false'
+}
+
+// 把段落中的文本、格式、链接和图片转换为内联HTML
+function renderInline(element: Element, context: DocxContext): string {
+  let html = ''
+
+  for (const child of Array.from(element.children)) {
+    switch (child.localName) {
+      case 'r': {
+        const rPr = wChild(child, 'rPr')
+        let runHtml = ''
+        for (const part of Array.from(child.children)) {
+          if (part.localName === 't') runHtml += escapeHtml(part.textContent || '')
+          else if (part.localName === 'tab') runHtml += ' '
+          else if (part.localName === 'br' || part.localName === 'cr') runHtml += '<br>'
+          else if (part.localName === 'drawing' || part.localName === 'pict') runHtml += renderImages(part, context)
+        }
+        if (!runHtml) break
+        if (isToggleOn(rPr, 'i')) runHtml = `<em>${runHtml}</em>`
+        if (isToggleOn(rPr, 'b')) runHtml = `<strong>${runHtml}</strong>`
+        html += runHtml
+        break
+      }
+      case 'hyperlink': {
+        const relId = child.getAttributeNS(R_NS, 'id') ?? child.getAttribute('r:id')
+        const href = relId ? context.hyperlinks.get(relId) : undefined
+        const inner = renderInline(child, context)
+        html += href ? `<a href="${escapeHtml(href)}">${inner}</a>` : inner
+        break
+      }
+      // 修订插入、域、内容控件等容器，内容照常输出；删除的修订（w:del）忽略
+      case 'ins':
+      case 'fldSimple':
+      case 'smartTag':
+      case 'sdt':
+      case 'sdtContent':
+        html += renderInline(child, context)
+        break
+    }
+  }
+
+  return html
+}
+
+function renderImages(element: Element, context: DocxContext): string {
+  let html = ''
+  const blips = [
+    ...Array.from(element.getElementsByTagNameNS('*', 'blip')),
+    ...Array.from(element.getElementsByTagNameNS('*', 'imagedata'))
+  ]
+  for (const blip of blips) {
+    const relId = blip.getAttributeNS(R_NS, 'embed') ?? blip.getAttributeNS(R_NS, 'id') ?? blip.getAttribute('r:embed')
+    const url = relId ? context.images.get(relId) : undefined
+    if (url) html += `<img src="${url}" alt="">`
+  }
+  return html
+}
+
+function renderTable(table: Element, context: DocxContext): string {
+  const rows = Array.from(table.children).filter(child => child.localName === 'tr')
+  const rowsHtml = rows.map((row, rowIndex) => {
+    const cellTag = rowIndex === 0 ? 'th' : 'td'
+    const cells = Array.from(row.children)
+      .filter(child => child.localName === 'tc')
+      .map(cell => {
+        const paragraphs = Array.from(cell.children)
+          .filter(child => child.localName === 'p')
+          .map(paragraph => renderInline(paragraph, context))
+          .filter(Boolean)
+        const tcPr = wChild(cell, 'tcPr')
+        const gridSpan = tcPr ? wAttr(wChild(tcPr, 'gridSpan'), 'val') : null
+        const colspan = gridSpan && parseInt(gridSpan, 10) > 1 ? ` colspan="${gridSpan}"` : ''
+        return `<${cellTag}${colspan}>${paragraphs.join('<br>')}</${cellTag}>`
+      })
+    return `<tr>${cells.join('')}</tr>`
+  })
+
+  if (rowsHtml.length === 0) return ''
+  return `<table><thead>${rowsHtml[0]}</thead><tbody>${rowsHtml.slice(1).join('')}</tbody></table>`
+}
+
+// 把连续的列表段落按级别组装成嵌套的 ul/ol
+function renderList(items: ListItem[]): string {
+  let html = ''
+  const stack: { level: number, tag: string }[] = []
+
+  for (const item of items) {
+    const tag = item.ordered ? 'ol' : 'ul'
+    while (stack.length > 0 && stack[stack.length - 1].level > item.level) {
+      html += `</li></${stack.pop()!.tag}>`
+    }
+    const top = stack[stack.length - 1]
+    if (!top || top.level < item.level) {
+      html += `<${tag}>`
+      stack.push({ level: item.level, tag })
+    } else if (top.tag !== tag) {
+      html += `</li></${stack.pop()!.tag}><${tag}>`
+      stack.push({ level: item.level, tag })
+    } else {
+      html += '</li>'
+    }
+    html += `<li>${item.html}`
+  }
+
+  while (stack.length > 0) {
+    html += `</li></${stack.pop()!.tag}>`
+  }
+  return html
+}
+
+function buildBlocks(body: Element, context: DocxContext): DocxBlock[] {
+  const blocks: DocxBlock[] = []
+  let pendingList: ListItem[] = []
+
+  const flushList = () => {
+    if (pendingList.length > 0) {
+      blocks.push({ html: renderList(pendingList) })
+      pendingList = []
+    }
+  }
+
+  const visit = (element: Element) => {
+    for (const child of Array.from(element.children)) {
+      if (child.localName === 'p') {
+        const pPr = wChild(child, 'pPr')
+        const styleId = pPr ? wAttr(wChild(pPr, 'pStyle'), 'val') : null
+        const outlineLevel = pPr ? wAttr(wChild(pPr, 'outlineLvl'), 'val') : null
+        const numPr = pPr ? wChild(pPr, 'numPr') : undefined
+        const html = renderInline(child, context)
+        const headingLevel = getHeadingLevel(styleId, outlineLevel, context)
+
+        if (headingLevel !== undefined) {
+          flushList()
+          const headingText = (child.textContent || '').trim()
+          if (headingText) {
+            const tag = `h${Math.min(Math.max(headingLevel, 1), 6)}`
+            blocks.push({ html: `<${tag}>${html}</${tag}>`, headingLevel, headingText })
+          }
+        } else if (numPr) {
+          const numId = wAttr(wChild(numPr, 'numId'), 'val') || ''
+          const level = parseInt(wAttr(wChild(numPr, 'ilvl'), 'val') || '0', 10)
+          // numId 为 0 表示取消编号
+          if (numId !== '0') {
+            pendingList.push({ level, ordered: context.numbering.get(numId)?.get(level) ?? false, html })
+          } else if (html) {
+            flushList()
+            blocks.push({ html: `<p>${html}</p>` })
+          }
+        } else {
+          flushList()
+          if (html.trim()) blocks.push({ html: `<p>${html}</p>` })
+        }
+      } else if (child.localName === 'tbl') {
+        flushList()
+        blocks.push({ html: renderTable(child, context) })
+      } else if (child.localName === 'sdt') {
+        const sdtContent = wChild(child, 'sdtContent')
+        if (sdtContent) visit(sdtContent)
+      }
+    }
+  }
+
+  visit(body)
+  flushList()
+  return blocks
+}
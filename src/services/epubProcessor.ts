@@ -1,26 +1,24 @@
 import ePub, { Book, type NavItem } from '@ssshooter/epubjs'
 import { SKIP_CHAPTER_KEYWORDS } from './constants'
-import { htmlToMarkdown } from '../utils/htmlToMarkdown'
+import { htmlToMarkdown, safeDecodeURIComponent } from '../utils/htmlToMarkdown'
 import type Section from '@ssshooter/epubjs/types/section'
+import type { ChapterData as BaseChapterData, BookData as BaseBookData } from './bookFormat'
 
 
-export interface ChapterData {
-  id: string
-  title: string
-  content: string
+export interface ChapterData extends BaseChapterData {
   // 章节定位信息，用于后续打开对应书页
   href?: string // 章节的href路径（用于定位和调试信息）
   tocItem?: NavItem // 原始的TOC项目信息
-  depth?: number // 章节层级深度
 }
 
-export interface BookData {
+export interface BookData extends BaseBookData {
   book: Book // epub.js Book instance
-  title: string
-  author: string
 }
 
 export class EpubProcessor {
+  // 提取章节期间缓存已加载的注释文档（notes.xhtml 等），key 为 spine href
+  private noteDocuments = new Map<string, Document | null>()
+
   async parseEpub(file: File): Promise<BookData> {
     try {
       // 将File转换为ArrayBuffer
@@ -47,9 +45,10 @@ export class EpubProcessor {
     }
   }
 
-  async extractChapters(book: Book, skipNonEssentialChapters: boolean = true, maxSubChapterDepth: number = 0, forceUseSpine: boolean = false): Promise<ChapterData[]> {
+  async extractChapters(book: Book, skipNonEssentialChapters: boolean = true, maxSubChapterDepth: number = 0, forceUseSpine: boolean = false, includeNotes: boolean = false): Promise<ChapterData[]> {
     try {
       const chapters: ChapterData[] = []
+      this.noteDocuments.clear()
 
       try {
         const toc = book.navigation.toc.filter(item => !item.href.includes('#'))
@@ -99,7 +98,7 @@ export class EpubProcessor {
 
             console.log(`📄 [DEBUG] 提取章节 "${chapterInfo.title}" (href: ${chapterInfo.href})`)
 
-            const { title: extractedTitle, content: chapterContent } = await this.extractContentFromHref(book, chapterInfo.href, chapterInfo.subitems)
+            const { title: extractedTitle, content: chapterContent } = await this.extractContentFromHref(book, chapterInfo.href, chapterInfo.subitems, includeNotes)
 
             if (chapterContent.trim().length > 100) {
               // 如果从HTML中提取到了h2标题，优先使用；否则保留原标题
@@ -123,6 +122,8 @@ export class EpubProcessor {
     } catch (error) {
       console.error(`❌ [DEBUG] 提取章节失败:`, error)
       throw new Error(`提取章节失败: ${error instanceof Error ? error.message : '未知错误'}`)
+    } finally {
+      this.noteDocuments.clear()
     }
   }
 
@@ -152,7 +153,7 @@ export class EpubProcessor {
     return chapterInfos
   }
 
-  private async extractContentFromHref(book: Book, href: string, subitems?: NavItem[]): Promise<{ title: string; content: string }> {
+  private async extractContentFromHref(book: Book, href: string, subitems?: NavItem[], includeNotes: boolean = false): Promise<{ title: string; content: string }> {
     try {
       console.log(`🔍 [DEBUG] 尝试通过href获取章节内容: ${href}`)
 
@@ -163,7 +164,7 @@ export class EpubProcessor {
       let extractedTitle = ''
 
       // 首先获取主章节内容
-      const { title: mainTitle, content: mainContent } = await this.getSingleChapterContent(book, cleanHref)
+      const { title: mainTitle, content: mainContent } = await this.getSingleChapterContent(book, cleanHref, includeNotes)
       if (mainContent) {
         allContent += mainContent
       }
@@ -181,7 +182,7 @@ export class EpubProcessor {
             if (cleanHref === subCleanHref) {
               continue
             }
-            const { content: subContent } = await this.getSingleChapterContent(book, subCleanHref)
+            const { content: subContent } = await this.getSingleChapterContent(book, subCleanHref, includeNotes)
             if (subContent) {
               allContent += '\n\n' + subContent
             }
@@ -197,7 +198,7 @@ export class EpubProcessor {
     }
   }
 
-  private async getSingleChapterContent(book: Book, href: string): Promise<{ title: string; content: string }> {
+  private async getSingleChapterContent(book: Book, href: string, includeNotes: boolean = false): Promise<{ title: string; content: string }> {
     try {
       let section = null
       const spineItems = book.spine.spineItems
@@ -217,7 +218,12 @@ export class EpubProcessor {
       }
 
       // 读取章节内容
-      const chapterHTML = await section.render(book.load.bind(book))
+      let chapterHTML = await section.render(book.load.bind(book))
+
+      // 把引用的外部注释（如 notes.xhtml 中的尾注）附加到章节末尾
+      if (includeNotes) {
+        chapterHTML = await this.appendReferencedNotes(book, section.href, chapterHTML)
+      }
 
       // 提取标题和纯文本内容（一次性解析）
       const { title, textContent } = this.extractTextFromXHTML(chapterHTML)
@@ -232,6 +238,109 @@ export class EpubProcessor {
     }
   }
 
+  // 查找章节中指向其他文件的注释引用（epub:type="noteref"，或上标中的跨文件锚点链接），
+  // 加载对应注释并以 [^label]: 注释内容 的形式附加到正文末尾，引用处替换为 [^label]
+  private async appendReferencedNotes(book: Book, sectionHref: string, chapterHTML: string): Promise<string> {
+    try {
+      const doc = new DOMParser().parseFromString(chapterHTML, 'application/xhtml+xml')
+      const body = doc.querySelector('body')
+      if (!body || doc.querySelector('parsererror')) return chapterHTML
+
+      const labels = new Map<string, string>()
+      const notes: { label: string; content: string }[] = []
+
+      for (const link of Array.from(body.querySelectorAll('a[href]'))) {
+        const href = link.getAttribute('href') || ''
+        const [path, id] = href.split('#')
+        if (!path || !id || /^[a-z]+:/i.test(path)) continue
+
+        const type = `${link.getAttribute('epub:type') || ''} ${link.getAttribute('role') || ''}`
+        const isNoteRef = /\bnoteref\b/.test(type) || !!link.closest('sup')
+        if (!isNoteRef || this.isInsideNote(link)) continue
+
+        const targetHref = this.resolveHref(sectionHref, path)
+        const key = `${targetHref}#${id}`
+        let label = labels.get(key)
+        if (!label) {
+          const noteContent = await this.getNoteContent(book, targetHref, safeDecodeURIComponent(id))
+          if (!noteContent) continue
+
+          label = (link.textContent || '').replace(/[^\w-]/g, '') || `note${labels.size + 1}`
+          // 不同注释使用了相同的编号时加上后缀区分
+          if (Array.from(labels.values()).includes(label)) {
+            label = `${label}-${labels.size + 1}`
+          }
+          labels.set(key, label)
+          notes.push({ label, content: noteContent })
+        }
+
+        link.replaceWith(doc.createTextNode(`[^${label}]`))
+      }
+
+      if (notes.length === 0) return chapterHTML
+
+      console.log(`📝 [DEBUG] 章节 ${sectionHref} 附加 ${notes.length} 条注释`)
+      for (const note of notes) {
+        const paragraph = doc.createElementNS(body.namespaceURI, 'p')
+        paragraph.textContent = `[^${note.label}]: ${note.content}`
+        body.appendChild(paragraph)
+      }
+      return new XMLSerializer().serializeToString(doc)
+    } catch (error) {
+      console.warn(`⚠️ [DEBUG] 解析注释引用失败 (href: ${sectionHref}):`, error)
+      return chapterHTML
+    }
+  }
+
+  // 注释正文中返回原文的链接不是注释引用
+  private isInsideNote(element: Element): boolean {
+    for (let current: Element | null = element; current; current = current.parentElement) {
+      const type = `${current.getAttribute('epub:type') || ''} ${current.getAttribute('role') || ''}`
+      if (/\b(footnotes?|endnotes?|rearnotes?|backlink)\b|doc-(footnote|endnote|backlink)/.test(type)) return true
+    }
+    return false
+  }
+
+  // 获取注释文档中指定 id 的注释文本
+  private async getNoteContent(book: Book, href: string, id: string): Promise<string> {
+    if (!this.noteDocuments.has(href)) {
+      let noteDocument: Document | null = null
+      const html = await this.getSingleChapterHTML(book, href)
+      if (html) {
+        noteDocument = new DOMParser().parseFromString(html, 'application/xhtml+xml')
+        if (noteDocument.querySelector('parsererror')) noteDocument = null
+      }
+      this.noteDocuments.set(href, noteDocument)
+    }
+
+    const noteDocument = this.noteDocuments.get(href)
+    const target = noteDocument?.getElementById(id)
+    if (!target) return ''
+
+    // 锚点常落在注释中的 <a>/<span> 上，取包含它的段落或列表项
+    const note = /^(a|span|sup)$/i.test(target.localName)
+      ? target.closest('aside, li, p, div') || target
+      : target
+    const clone = note.cloneNode(true) as Element
+    // 移除返回正文的链接（通常是注释编号或 ↩）
+    clone.querySelectorAll('a').forEach(link => {
+      if (/^[\s↩^\d[\]().]*$/.test(link.textContent || '') || /backlink/.test(link.getAttribute('epub:type') || '')) {
+        link.remove()
+      }
+    })
+
+    return htmlToMarkdown(clone.innerHTML)
+      .replace(/\s+/g, ' ')
+      .replace(/^\[\^?\w+\]:?\s*/, '')
+      .trim()
+  }
+
+  // 将章节内的相对链接解析为相对于 OPF 目录的 href
+  private resolveHref(baseHref: string, relativeHref: string): string {
+    const url = new URL(relativeHref, `http://epub/${baseHref}`)
+    return safeDecodeURIComponent(url.pathname.slice(1))
+  }
+
   private shouldSkipChapter(title: string): boolean {
     if (!title) return false
 
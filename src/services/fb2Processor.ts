@@ -0,0 +1,312 @@
+import JSZip from 'jszip'
+import { SKIP_CHAPTER_KEYWORDS } from './constants'
+import { htmlToMarkdown } from '../utils/htmlToMarkdown'
+import type { ChapterData as BaseChapterData, BookData as BaseBookData } from './bookFormat'
+
+export interface ChapterData extends BaseChapterData {
+  // FB2特有的定位信息：章节对应 BookData.sections 中的 <section> 序号，用于阅读器显示
+  sectionIndex?: number
+  // 为 true 时只包含该 section 自身的内容，不含子 section（子 section 已单独成章）
+  ownContentOnly?: boolean
+}
+
+export interface BookData extends BaseBookData {
+  language: string
+  document: Document
+  // 所有正文 section（按文档顺序），章节通过 sectionIndex 引用
+  sections: Element[]
+  // <binary> 中的图片，id -> data URI
+  images: Map<string, string>
+}
+
+interface SectionInfo {
+  title: string
+  sectionIndex: number
+  ownContentOnly: boolean
+  depth: number
+}
+
+const XLINK_NS = 'http://www.w3.org/1999/xlink'
+
+export class Fb2Processor {
+  async parseFb2(file: File): Promise<BookData> {
+    try {
+      let bytes = new Uint8Array(await file.arrayBuffer())
+
+      // FB2.ZIP：取压缩包中的第一个 .fb2 文件
+      if (/\.zip$/i.test(file.name) || (bytes[0] === 0x50 && bytes[1] === 0x4B)) {
+        const zip = await JSZip.loadAsync(bytes)
+        const fb2Entry = Object.values(zip.files).find(entry => !entry.dir && /\.fb2$/i.test(entry.name))
+        if (!fb2Entry) {
+          throw new Error('压缩包中未找到 .fb2 文件')
+        }
+        bytes = await fb2Entry.async('uint8array')
+      }
+
+      const xml = decodeXml(bytes)
+      const document = new DOMParser().parseFromString(xml, 'application/xml')
+      if (document.getElementsByTagName('parsererror').length > 0 || document.documentElement.localName !== 'FictionBook') {
+        throw new Error('不是有效的FictionBook文档')
+      }
+
+      const titleInfo = findDescendant(document.documentElement, ['description', 'title-info'])
+      const title = getText(titleInfo && findChild(titleInfo, 'book-title')) || file.name.replace(/\.fb2(\.zip)?$/i, '') || '未知标题'
+      const authors = titleInfo ? childElements(titleInfo, 'author').map(formatAuthor).filter(Boolean) : []
+      const language = getText(titleInfo && findChild(titleInfo, 'lang'))
+
+      const images = new Map<string, string>()
+      for (const binary of childElements(document.documentElement, 'binary')) {
+        const id = binary.getAttribute('id')
+        const contentType = binary.getAttribute('content-type') || 'image/jpeg'
+        if (id) {
+          images.set(id, `data:${contentType};base64,${(binary.textContent || '').replace(/\s+/g, '')}`)
+        }
+      }
+
+      const sections: Element[] = []
+      for (const body of getMainBodies(document)) {
+        collectSections(body, sections)
+      }
+
+      console.log(`📚 [DEBUG] FB2解析完成:`, { title, authors, language, sections: sections.length, images: images.size })
+
+      return {
+        title,
+        author: authors.join(', ') || '未知作者',
+        language,
+        document,
+        sections,
+        images
+      }
+    } catch (error) {
+      throw new Error(`解析FB2文件失败: ${error instanceof Error ? error.message : '未知错误'}`)
+    }
+  }
+
+  async extractChapters(bookData: BookData, skipNonEssentialChapters: boolean = true, maxSubChapterDepth: number = 0): Promise<ChapterData[]> {
+    try {
+      const sectionInfos: SectionInfo[] = []
+      for (const body of getMainBodies(bookData.document)) {
+        this.collectChapterSections(bookData, childElements(body, 'section'), 0, maxSubChapterDepth, sectionInfos)
+      }
+      console.log(`📚 [DEBUG] 找到 ${sectionInfos.length} 个章节信息`, sectionInfos)
+
+      const chapters: ChapterData[] = []
+      for (let i = 0; i < sectionInfos.length; i++) {
+        const sectionInfo = sectionInfos[i]
+
+        if (skipNonEssentialChapters && this.shouldSkipChapter(sectionInfo.title)) {
+          console.log(`⏭️ [DEBUG] 跳过无关键内容章节: "${sectionInfo.title}"`)
+          continue
+        }
+
+        const section = bookData.sections[sectionInfo.sectionIndex]
+        const html = renderSection(section, bookData, sectionInfo.ownContentOnly, false, 1)
+        const chapterContent = htmlToMarkdown(html)
+
+        if (chapterContent.trim().length > 100) {
+          chapters.push({
+            id: `${i}-${sectionInfo.title}`, // 使用索引和标题组合作为ID，确保唯一性
+            title: sectionInfo.title,
+            content: chapterContent,
+            sectionIndex: sectionInfo.sectionIndex,
+            ownContentOnly: sectionInfo.ownContentOnly,
+            depth: sectionInfo.depth
+          })
+        }
+      }
+
+      console.log(`📊 [DEBUG] 最终提取到 ${chapters.length} 个章节`)
+
+      if (chapters.length === 0) {
+        throw new Error('未找到有效的章节内容')
+      }
+
+      return chapters
+    } catch (error) {
+      console.error(`❌ [DEBUG] 提取章节失败:`, error)
+      throw new Error(`提取章节失败: ${error instanceof Error ? error.message : '未知错误'}`)
+    }
+  }
+
+  // 获取章节的HTML内容（用于阅读器显示，包含图片）
+  getChapterHTML(bookData: BookData, chapter: ChapterData): string {
+    if (chapter.sectionIndex === undefined) return ''
+    const section = bookData.sections[chapter.sectionIndex]
+    return section ? renderSection(section, bookData, !!chapter.ownContentOnly, true, 1) : ''
+  }
+
+  // 按 section 嵌套选取章节：有子 section 且未超过 maxSubChapterDepth 时使用子章节，
+  // 父 section 自身的引言内容单独保留为一章
+  private collectChapterSections(bookData: BookData, sections: Element[], currentDepth: number, maxDepth: number, result: SectionInfo[]) {
+    for (const section of sections) {
+      const sectionIndex = bookData.sections.indexOf(section)
+      const title = getTitleText(section) || `章节 ${result.length + 1}`
+      const childSections = childElements(section, 'section')
+
+      if (childSections.length > 0 && maxDepth > 0 && currentDepth < maxDepth) {
+        result.push({ title, sectionIndex, ownContentOnly: true, depth: currentDepth })
+        this.collectChapterSections(bookData, childSections, currentDepth + 1, maxDepth, result)
+      } else {
+        result.push({ title, sectionIndex, ownContentOnly: false, depth: currentDepth })
+      }
+    }
+  }
+
+  private shouldSkipChapter(title: string): boolean {
+    if (!title) return false
+
+    return SKIP_CHAPTER_KEYWORDS.some(keyword =>
+      title.toLowerCase().includes(keyword.toLowerCase())
+    )
+  }
+}
+
+// 按 XML 声明中的编码解码（俄语 FB2 常用 windows-1251）
+function decodeXml(bytes: Uint8Array): string {
+  const head = new TextDecoder('latin1').decode(bytes.subarray(0, 200))
+  const encoding = head.match(/encoding=["']([\w-]+)["']/i)?.[1] || 'utf-8'
+  try {
+    return new TextDecoder(encoding).decode(bytes)
+  } catch {
+    console.warn(`⚠️ [DEBUG] 不支持的编码 ${encoding}，使用 UTF-8`)
+    return new TextDecoder('utf-8').decode(bytes)
+  }
+}
+
+function childElements(element: Element, localName?: string): Element[] {
+  return Array.from(element.children).filter(child => !localName || child.localName === localName)
+}
+
+function findChild(element: Element, localName: string): Element | undefined {
+  return childElements(element, localName)[0]
+}
+
+function findDescendant(element: Element, path: string[]): Element | undefined {
+  let current: Element | undefined = element
+  for (const name of path) {
+    current = current && findChild(current, name)
+  }
+  return current
+}
+
+function getText(element: Element | undefined): string {
+  return (element?.textContent || '').replace(/\s+/g, ' ').trim()
+}
+
+function formatAuthor(author: Element): string {
+  const parts = ['first-name', 'middle-name', 'last-name'].map(name => getText(findChild(author, name))).filter(Boolean)
+  return parts.length > 0 ? parts.join(' ') : getText(findChild(author, 'nickname'))
+}
+
+function getTitleText(section: Element): string {
+  const title = findChild(section, 'title')
+  if (!title) return ''
+  const lines = childElements(title, 'p').map(getText).filter(Boolean)
+  return lines.length > 0 ? lines.join(' ') : getText(title)
+}
+
+// 正文 body（排除 name="notes" / "comments" 的注释 body）
+function getMainBodies(document: Document): Element[] {
+  return childElements(document.documentElement, 'body').filter(body => {
+    const name = body.getAttribute('name')
+    return !name || !/^(notes|comments|footnotes)$/i.test(name)
+  })
+}
+
+function collectSections(element: Element, sections: Element[]) {
+  for (const section of childElements(element, 'section')) {
+    sections.push(section)
+    collectSections(section, sections)
+  }
+}
+
+function getHref(element: Element): string {
+  const href = element.getAttributeNS(XLINK_NS, 'href')
+  if (href) return href
+  // 兼容使用其他前缀声明 xlink 的文档
+  const attribute = Array.from(element.attributes).find(attr => attr.localName === 'href')
+  return attribute?.value || ''
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+// 把 FB2 元素转换为HTML，includeImages 控制是否输出图片（AI处理时不需要）
+function renderSection(section: Element, bookData: BookData, ownContentOnly: boolean, includeImages: boolean, depth: number): string {
+  return childElements(section)
+    .filter(child => !(ownContentOnly && child.localName === 'section'))
+    .map(child => child.localName === 'section'
+      ? renderSection(child, bookData, false, includeImages, depth + 1)
+      : renderElement(child, bookData, includeImages, depth))
+    .join('\n')
+}
+
+function renderElement(element: Element, bookData: BookData, includeImages: boolean, depth: number): string {
+  const renderChildren = () => Array.from(element.childNodes).map(node => {
+    if (node.nodeType === Node.TEXT_NODE) return escapeHtml(node.textContent || '')
+    if (node.nodeType === Node.ELEMENT_NODE) return renderElement(node as Element, bookData, includeImages, depth)
+    return ''
+  }).join('')
+
+  switch (element.localName) {
+    case 'title': {
+      const tag = `h${Math.min(depth, 6)}`
+      return `<${tag}>${childElements(element, 'p').map(p => renderElement(p, bookData, includeImages, depth).replace(/^<p>|<\/p>$/g, '')).join('<br>') || renderChildren()}</${tag}>`
+    }
+    case 'subtitle':
+      return `<h${Math.min(depth + 1, 6)}>${renderChildren()}</h${Math.min(depth + 1, 6)}>`
+    case 'p':
+      return `<p>${renderChildren()}</p>`
+    case 'empty-line':
+      return '<br>'
+    case 'emphasis':
+      return `<em>${renderChildren()}</em>`
+    case 'strong':
+      return `<strong>${renderChildren()}</strong>`
+    case 'strikethrough':
+      return `<del>${renderChildren()}</del>`
+    case 'sup':
+    case 'sub':
+    case 'code':
+      return `<${element.localName}>${renderChildren()}</${element.localName}>`
+    case 'epigraph':
+    case 'cite':
+      return `<blockquote>${renderChildren()}</blockquote>`
+    case 'text-author':
+      return `<p><em>${renderChildren()}</em></p>`
+    case 'poem':
+    case 'stanza':
+      return `<div>${renderChildren()}</div>`
+    case 'v':
+      return `${renderChildren()}<br>`
+    case 'a': {
+      const href = getHref(element)
+      // 注释引用以上标形式保留
+      if (element.getAttribute('type') === 'note' || href.startsWith('#')) {
+        return `<sup>${renderChildren()}</sup>`
+      }
+      return href ? `<a href="${escapeHtml(href)}">${renderChildren()}</a>` : renderChildren()
+    }
+    case 'image': {
+      if (!includeImages) return ''
+      const src = bookData.images.get(getHref(element).replace(/^#/, ''))
+      return src ? `<img src="${src}" alt="${escapeHtml(element.getAttribute('alt') || '')}">` : ''
+    }
+    case 'table':
+    case 'tr':
+    case 'th':
+    case 'td':
+      return `<${element.localName}>${renderChildren()}</${element.localName}>`
+    case 'annotation':
+    case 'section':
+      return `<div>${renderChildren()}</div>`
+    default:
+      return renderChildren()
+  }
+}
@@ -0,0 +1,833 @@
+import { SKIP_CHAPTER_KEYWORDS } from './constants'
+import { htmlToMarkdown } from '../utils/htmlToMarkdown'
+import type { ChapterData as BaseChapterData, BookData as BaseBookData } from './bookFormat'
+
+export interface ChapterData extends BaseChapterData {
+  // MOBI特有的定位信息：章节在解压后文本中的字节偏移，用于阅读器显示
+  startPos?: number
+  endPos?: number
+}
+
+// NCX目录项
+interface TocEntry {
+  title: string
+  pos: number
+  depth: number
+  parent: number
+  children: number[]
+}
+
+export interface BookData extends BaseBookData {
+  // 解压（KF8还需重建）后的完整HTML文本，NCX中的位置都是字节偏移，因此保留字节形式
+  text: Uint8Array
+  encoding: string
+  isKF8: boolean
+  toc: TocEntry[]
+  // 所有PalmDB记录，阅读器根据图片记录显示图片
+  records: Uint8Array[]
+  firstImageIndex: number
+}
+
+interface MobiHeader {
+  compression: number
+  textLength: number
+  textRecordCount: number
+  encryption: number
+  encoding: string
+  version: number
+  fullName: string
+  firstImageIndex: number
+  huffRecordOffset: number
+  huffRecordCount: number
+  extraFlags: number
+  ncxIndex: number
+  fragmentIndex: number
+  skeletonIndex: number
+  exth: Map<number, Uint8Array>
+}
+
+// INDX索引中的一条记录
+interface IndexEntry {
+  name: string
+  tags: Map<number, number[]>
+}
+
+const NULL_INDEX = 0xFFFFFFFF
+
+// 压缩类型
+const COMPRESSION_NONE = 1
+const COMPRESSION_PALMDOC = 2
+const COMPRESSION_HUFFCDIC = 17480
+
+// EXTH记录类型
+const EXTH_AUTHOR = 100
+const EXTH_KF8_BOUNDARY = 121
+const EXTH_UPDATED_TITLE = 503
+
+export class MobiProcessor {
+  // 每本书的图片 blob URL 缓存，避免阅读器重复创建
+  private imageUrlCache = new WeakMap<BookData, Map<number, string>>()
+
+  async parseMobi(file: File): Promise<BookData> {
+    try {
+      const arrayBuffer = await file.arrayBuffer()
+      const records = readPalmDbRecords(arrayBuffer)
+
+      const mobiHeader = parseMobiHeader(records[0])
+      if (mobiHeader.encryption !== 0) {
+        throw new Error('该文件受DRM保护，无法解析')
+      }
+
+      // AZW3本身就是KF8；新版MOBI可能在同一文件中同时包含MOBI6和KF8两部分，优先使用KF8
+      let sectionStart = 0
+      let header = mobiHeader
+      const boundary = mobiHeader.exth.get(EXTH_KF8_BOUNDARY)
+      if (mobiHeader.version < 8 && boundary && boundary.length >= 4) {
+        const kf8Start = new DataView(boundary.buffer, boundary.byteOffset, 4).getUint32(0)
+        if (kf8Start !== NULL_INDEX && kf8Start < records.length) {
+          sectionStart = kf8Start
+          header = parseMobiHeader(records[kf8Start])
+        }
+      }
+      const isKF8 = header.version >= 8
+      const sectionRecords = records.slice(sectionStart)
+
+      console.log(`📚 [DEBUG] MOBI头信息:`, {
+        version: header.version,
+        compression: header.compression,
+        encoding: header.encoding,
+        textRecordCount: header.textRecordCount,
+        isKF8
+      })
+
+      let text = extractText(sectionRecords, header)
+      let fragments: { insertPos: number }[] = []
+      if (isKF8 && header.skeletonIndex !== NULL_INDEX && header.fragmentIndex !== NULL_INDEX) {
+        const rebuilt = rebuildKF8Text(text, sectionRecords, header)
+        text = rebuilt.text
+        fragments = rebuilt.fragments
+      }
+
+      const toc = header.ncxIndex !== NULL_INDEX
+        ? readToc(sectionRecords, header, fragments)
+        : []
+
+      const decoder = new TextDecoder(header.encoding)
+      const exthTitle = mobiHeader.exth.get(EXTH_UPDATED_TITLE)
+      const exthAuthor = mobiHeader.exth.get(EXTH_AUTHOR)
+      const title = (exthTitle ? decoder.decode(exthTitle) : mobiHeader.fullName) || file.name.replace(/\.(mobi|azw3?)$/i, '') || '未知标题'
+      const author = exthAuthor ? decoder.decode(exthAuthor) : '未知作者'
+
+      console.log(`📚 [DEBUG] MOBI解析完成:`, { title, author, textLength: text.length, tocLength: toc.length })
+
+      return {
+        title,
+        author,
+        text,
+        encoding: header.encoding,
+        isKF8,
+        toc,
+        records,
+        firstImageIndex: mobiHeader.firstImageIndex
+      }
+    } catch (error) {
+      throw new Error(`解析MOBI文件失败: ${error instanceof Error ? error.message : '未知错误'}`)
+    }
+  }
+
+  async extractChapters(bookData: BookData, skipNonEssentialChapters: boolean = true, maxSubChapterDepth: number = 0): Promise<ChapterData[]> {
+    try {
+      const chapterInfos = bookData.toc.length > 0
+        ? this.extractChaptersFromToc(bookData.toc, maxSubChapterDepth)
+        : this.extractChaptersFromPageBreaks(bookData)
+      console.log(`📚 [DEBUG] 找到 ${chapterInfos.length} 个章节信息`, chapterInfos)
+
+      const chapters: ChapterData[] = []
+      for (let i = 0; i < chapterInfos.length; i++) {
+        const chapterInfo = chapterInfos[i]
+
+        if (skipNonEssentialChapters && this.shouldSkipChapter(chapterInfo.title)) {
+          console.log(`⏭️ [DEBUG] 跳过无关键内容章节: "${chapterInfo.title}"`)
+          continue
+        }
+
+        const startPos = chapterInfo.pos
+        const endPos = chapterInfos[i + 1] ? chapterInfos[i + 1].pos : bookData.text.length
+        if (endPos <= startPos) continue
+
+        console.log(`📄 [DEBUG] 提取章节 "${chapterInfo.title}" (字节 ${startPos}-${endPos})`)
+
+        const html = this.decodeRange(bookData, startPos, endPos)
+        const chapterContent = htmlToMarkdown(html)
+
+        if (chapterContent.trim().length > 100) {
+          chapters.push({
+            id: `${i}-${chapterInfo.title}`, // 使用索引和标题组合作为ID，确保唯一性
+            title: chapterInfo.title,
+            content: chapterContent,
+            startPos,
+            endPos,
+            depth: chapterInfo.depth
+          })
+        }
+      }
+
+      console.log(`📊 [DEBUG] 最终提取到 ${chapters.length} 个章节`)
+
+      if (chapters.length === 0) {
+        throw new Error('未找到有效的章节内容')
+      }
+
+      return chapters
+    } catch (error) {
+      console.error(`❌ [DEBUG] 提取章节失败:`, error)
+      throw new Error(`提取章节失败: ${error instanceof Error ? error.message : '未知错误'}`)
+    }
+  }
+
+  // 获取章节的HTML内容（用于阅读器显示），图片替换为 blob URL
+  getChapterHTML(bookData: BookData, chapter: ChapterData): string {
+    if (chapter.startPos === undefined || chapter.endPos === undefined) {
+      return ''
+    }
+
+    const html = this.decodeRange(bookData, chapter.startPos, chapter.endPos)
+
+    return html
+      // MOBI6: <img recindex="00012">
+      .replace(/<img([^>]*?)\brecindex=["']?(\d+)["']?([^>]*)>/gi, (_match, before: string, recindex: string, after: string) => {
+        const url = this.getImageUrl(bookData, parseInt(recindex, 10) - 1)
+        return url ? `<img${before} src="${url}"${after}>` : ''
+      })
+      // KF8: src="kindle:embed:000C?mime=image/jpeg"
+      .replace(/kindle:embed:([0-9A-V]{4})(\?mime=[^"'\s)]*)?/gi, (match, index: string) => {
+        return this.getImageUrl(bookData, parseInt(index, 32) - 1) || match
+      })
+  }
+
+  // 按NCX目录层级选取章节：子目录深度未超过设置时递归使用子章节
+  private extractChaptersFromToc(toc: TocEntry[], maxDepth: number): { title: string, pos: number, depth: number }[] {
+    const chapterInfos: { title: string, pos: number, depth: number }[] = []
+
+    const collect = (entryIndexes: number[], currentDepth: number) => {
+      for (const entryIndex of entryIndexes) {
+        const entry = toc[entryIndex]
+        if (!entry) continue
+        if (entry.children.length > 0 && maxDepth > 0 && currentDepth < maxDepth) {
+          collect(entry.children, currentDepth + 1)
+        } else {
+          chapterInfos.push({ title: entry.title, pos: entry.pos, depth: currentDepth })
+        }
+      }
+    }
+
+    const rootIndexes = toc
+      .map((entry, index) => ({ entry, index }))
+      .filter(({ entry }) => entry.parent === -1)
+      .map(({ index }) => index)
+    collect(rootIndexes, 0)
+
+    // 按文本位置排序，并去掉指向同一位置的重复目录项
+    chapterInfos.sort((a, b) => a.pos - b.pos)
+    return chapterInfos.filter((info, index) => index === 0 || info.pos !== chapterInfos[index - 1].pos)
+  }
+
+  // 没有NCX目录时，按 <mbp:pagebreak> 分页符切分章节
+  private extractChaptersFromPageBreaks(bookData: BookData): { title: string, pos: number, depth: number }[] {
+    console.log('🔁 [DEBUG] 未找到NCX目录，使用分页符切分章节')
+    const marker = new TextEncoder().encode('<mbp:pagebreak')
+    const positions = [0]
+    const { text } = bookData
+
+    for (let i = 0; i <= text.length - marker.length; i++) {
+      let matched = true
+      for (let j = 0; j < marker.length; j++) {
+        if ((text[i + j] | 0x20) !== (marker[j] | 0x20)) {
+          matched = false
+          break
+        }
+      }
+      if (matched) positions.push(i)
+    }
+
+    return positions.map((pos, index) => {
+      const end = positions[index + 1] ?? text.length
+      const html = this.decodeRange(bookData, pos, end)
+      const headingMatch = html.match(/<h[1-3][^>]*>([\s\S]*?)<\/h[1-3]>/i)
+      const title = headingMatch ? headingMatch[1].replace(/<[^>]*>/g, '').trim() : ''
+      return { title: title || `章节 ${index + 1}`, pos, depth: 0 }
+    })
+  }
+
+  private decodeRange(bookData: BookData, start: number, end: number): string {
+    return new TextDecoder(bookData.encoding).decode(bookData.text.subarray(start, end))
+  }
+
+  // 释放阅读器为这本书创建的图片 blob URL
+  releaseBook(bookData: BookData) {
+    this.imageUrlCache.get(bookData)?.forEach(url => URL.revokeObjectURL(url))
+    this.imageUrlCache.delete(bookData)
+  }
+
+  private getImageUrl(bookData: BookData, imageIndex: number): string | null {
+    if (bookData.firstImageIndex === NULL_INDEX || imageIndex < 0) return null
+
+    let cache = this.imageUrlCache.get(bookData)
+    if (!cache) {
+      cache = new Map()
+      this.imageUrlCache.set(bookData, cache)
+    }
+
+    const cached = cache.get(imageIndex)
+    if (cached) return cached
+
+    const record = bookData.records[bookData.firstImageIndex + imageIndex]
+    if (!record) return null
+
+    const url = URL.createObjectURL(new Blob([new Uint8Array(record)], { type: getImageMimeType(record) }))
+    cache.set(imageIndex, url)
+    return url
+  }
+
+  private shouldSkipChapter(title: string): boolean {
+    if (!title) return false
+
+    return SKIP_CHAPTER_KEYWORDS.some(keyword =>
+      title.toLowerCase().includes(keyword.toLowerCase())
+    )
+  }
+}
+
+// 读取PalmDB容器中的所有记录
+function readPalmDbRecords(buffer: ArrayBuffer): Uint8Array[] {
+  const view = new DataView(buffer)
+  if (buffer.byteLength < 78) {
+    throw new Error('文件过小，不是有效的MOBI文件')
+  }
+
+  const typeCreator = String.fromCharCode(...new Uint8Array(buffer, 60, 8))
+  if (typeCreator !== 'BOOKMOBI' && typeCreator !== 'TEXtREAd') {
+    throw new Error(`不支持的文件类型: ${typeCreator}`)
+  }
+
+  const recordCount = view.getUint16(76)
+  const offsets: number[] = []
+  for (let i = 0; i < recordCount; i++) {
+    offsets.push(view.getUint32(78 + i * 8))
+  }
+
+  return offsets.map((offset, i) => {
+    const end = i + 1 < offsets.length ? offsets[i + 1] : buffer.byteLength
+    return new Uint8Array(buffer, offset, Math.max(0, end - offset))
+  })
+}
+
+// 解析记录0中的PalmDOC头、MOBI头和EXTH头
+function parseMobiHeader(record0: Uint8Array): MobiHeader {
+  const view = new DataView(record0.buffer, record0.byteOffset, record0.byteLength)
+  const readUint32 = (offset: number, fallback: number = NULL_INDEX) =>
+    offset + 4 <= record0.byteLength ? view.getUint32(offset) : fallback
+
+  const header: MobiHeader = {
+    compression: view.getUint16(0),
+    textLength: view.getUint32(4),
+    textRecordCount: view.getUint16(8),
+    encryption: view.getUint16(12),
+    encoding: 'windows-1252',
+    version: 0,
+    fullName: '',
+    firstImageIndex: NULL_INDEX,
+    huffRecordOffset: 0,
+    huffRecordCount: 0,
+    extraFlags: 0,
+    ncxIndex: NULL_INDEX,
+    fragmentIndex: NULL_INDEX,
+    skeletonIndex: NULL_INDEX,
+    exth: new Map()
+  }
+
+  // 纯PalmDOC文件没有MOBI头
+  if (record0.byteLength < 24 || String.fromCharCode(...record0.subarray(16, 20)) !== 'MOBI') {
+    return header
+  }
+
+  const headerLength = view.getUint32(20)
+  const headerEnd = 16 + headerLength
+  const readHeaderUint32 = (offset: number) => offset + 4 <= headerEnd ? readUint32(offset) : NULL_INDEX
+
+  header.encoding = view.getUint32(28) === 65001 ? 'utf-8' : 'windows-1252'
+  header.version = readUint32(36, 0)
+  header.firstImageIndex = readHeaderUint32(0x6C)
+  header.huffRecordOffset = readUint32(0x70, 0)
+  header.huffRecordCount = readUint32(0x74, 0)
+  header.ncxIndex = readHeaderUint32(0xF4)
+  if (0xF4 <= headerEnd) {
+    header.extraFlags = view.getUint16(0xF2)
+  }
+  if (header.version >= 8) {
+    header.fragmentIndex = readHeaderUint32(0xF8)
+    header.skeletonIndex = readHeaderUint32(0xFC)
+  }
+
+  const fullNameOffset = readUint32(0x54, 0)
+  const fullNameLength = readUint32(0x58, 0)
+  if (fullNameOffset > 0 && fullNameOffset + fullNameLength <= record0.byteLength) {
+    header.fullName = new TextDecoder(header.encoding).decode(record0.subarray(fullNameOffset, fullNameOffset + fullNameLength))
+  }
+
+  // EXTH头紧跟在MOBI头之后
+  const exthFlags = readUint32(0x80, 0)
+  if (exthFlags & 0x40 && headerEnd + 12 <= record0.byteLength && String.fromCharCode(...record0.subarray(headerEnd, headerEnd + 4)) === 'EXTH') {
+    const exthCount = view.getUint32(headerEnd + 8)
+    let pos = headerEnd + 12
+    for (let i = 0; i < exthCount && pos + 8 <= record0.byteLength; i++) {
+      const type = view.getUint32(pos)
+      const length = view.getUint32(pos + 4)
+      if (length < 8) break
+      if (!header.exth.has(type)) {
+        header.exth.set(type, record0.subarray(pos + 8, pos + length))
+      }
+      pos += length
+    }
+  }
+
+  return header
+}
+
+// 解压所有正文记录并拼接为完整文本
+function extractText(records: Uint8Array[], header: MobiHeader): Uint8Array {
+  let decompress: (data: Uint8Array) => Uint8Array
+  switch (header.compression) {
+    case COMPRESSION_NONE:
+      decompress = data => data
+      break
+    case COMPRESSION_PALMDOC:
+      decompress = decompressPalmDoc
+      break
+    case COMPRESSION_HUFFCDIC: {
+      const reader = new HuffCdicReader(records.slice(header.huffRecordOffset, header.huffRecordOffset + header.huffRecordCount))
+      decompress = data => reader.unpack(data)
+      break
+    }
+    default:
+      throw new Error(`不支持的压缩方式: ${header.compression}`)
+  }
+
+  const textRecords: Uint8Array[] = []
+  for (let i = 1; i <= header.textRecordCount && i < records.length; i++) {
+    const record = records[i]
+    const trailingSize = getTrailingEntriesSize(record, header.extraFlags)
+    textRecords.push(decompress(record.subarray(0, record.length - trailingSize)))
+  }
+
+  const text = concatBytes(textRecords)
+  return header.textLength > 0 && header.textLength < text.length ? text.subarray(0, header.textLength) : text
+}
+
+// 计算正文记录末尾附加数据的长度（由extraFlags描述）
+function getTrailingEntriesSize(data: Uint8Array, extraFlags: number): number {
+  let size = 0
+  let flags = extraFlags >> 1
+  while (flags) {
+    if (flags & 1) {
+      // 附加数据的长度以反向变长整数存储在末尾
+      let value = 0
+      let shift = 0
+      let pos = data.length - size
+      while (pos > 0) {
+        const byte = data[--pos]
+        value |= (byte & 0x7F) << shift
+        shift += 7
+        if (byte & 0x80 || shift >= 28) break
+      }
+      size += value
+    }
+    flags >>= 1
+  }
+  // 最低位表示多字节字符的溢出字节
+  if (extraFlags & 1 && data.length - size - 1 >= 0) {
+    size += (data[data.length - size - 1] & 0x3) + 1
+  }
+  return size
+}
+
+// PalmDOC (LZ77变体) 解压
+function decompressPalmDoc(data: Uint8Array): Uint8Array {
+  const output: number[] = []
+  let i = 0
+  while (i < data.length) {
+    const byte = data[i++]
+    if (byte >= 1 && byte <= 8) {
+      // 后续 byte 个字节原样复制
+      for (let j = 0; j < byte && i < data.length; j++) output.push(data[i++])
+    } else if (byte < 0x80) {
+      output.push(byte)
+    } else if (byte >= 0xC0) {
+      // 空格加一个字符
+      output.push(0x20, byte ^ 0x80)
+    } else if (i < data.length) {
+      // 回溯复制：11位距离 + 3位长度
+      const pair = (byte << 8) | data[i++]
+      const distance = (pair >> 3) & 0x7FF
+      const length = (pair & 0x7) + 3
+      const start = output.length - distance
+      if (start < 0) continue
+      for (let j = 0; j < length; j++) output.push(output[start + j])
+    }
+  }
+  return new Uint8Array(output)
+}
+
+// HUFF/CDIC 解压
+class HuffCdicReader {
+  private dict1: { codeLength: number, terminal: boolean, maxCode: bigint }[] = []
+  private minCodes: bigint[] = []
+  private maxCodes: bigint[] = []
+  private dictionary: { data: Uint8Array, resolved: boolean }[] = []
+
+  constructor(records: Uint8Array[]) {
+    if (records.length === 0) {
+      throw new Error('缺少HUFF/CDIC记录')
+    }
+    this.loadHuff(records[0])
+    for (const record of records.slice(1)) {
+      this.loadCdic(record)
+    }
+  }
+
+  private loadHuff(huff: Uint8Array) {
+    const view = new DataView(huff.buffer, huff.byteOffset, huff.byteLength)
+    if (String.fromCharCode(...huff.subarray(0, 4)) !== 'HUFF') {
+      throw new Error('无效的HUFF记录')
+    }
+    const cacheOffset = view.getUint32(8)
+    const baseOffset = view.getUint32(12)
+
+    for (let i = 0; i < 256; i++) {
+      const value = view.getUint32(cacheOffset + i * 4)
+      const codeLength = value & 0x1F
+      this.dict1.push({
+        codeLength,
+        terminal: (value & 0x80) !== 0,
+        maxCode: ((BigInt(value >>> 8) + 1n) << BigInt(32 - codeLength)) - 1n
+      })
+    }
+
+    this.minCodes.push(0n)
+    this.maxCodes.push(0n)
+    for (let codeLength = 1; codeLength <= 32; codeLength++) {
+      const minCode = BigInt(view.getUint32(baseOffset + (codeLength - 1) * 8))
+      const maxCode = BigInt(view.getUint32(baseOffset + (codeLength - 1) * 8 + 4))
+      this.minCodes.push(minCode << BigInt(32 - codeLength))
+      this.maxCodes.push(((maxCode + 1n) << BigInt(32 - codeLength)) - 1n)
+    }
+  }
+
+  private loadCdic(cdic: Uint8Array) {
+    const view = new DataView(cdic.buffer, cdic.byteOffset, cdic.byteLength)
+    if (String.fromCharCode(...cdic.subarray(0, 4)) !== 'CDIC') {
+      throw new Error('无效的CDIC记录')
+    }
+    const phraseCount = view.getUint32(8)
+    const bits = view.getUint32(12)
+    const count = Math.min(1 << bits, phraseCount - this.dictionary.length)
+
+    for (let i = 0; i < count; i++) {
+      const offset = view.getUint16(16 + i * 2)
+      const blen = view.getUint16(16 + offset)
+      this.dictionary.push({
+        data: cdic.subarray(18 + offset, 18 + offset + (blen & 0x7FFF)),
+        resolved: (blen & 0x8000) !== 0
+      })
+    }
+  }
+
+  unpack(data: Uint8Array): Uint8Array {
+    const padded = new Uint8Array(data.length + 8)
+    padded.set(data)
+    const view = new DataView(padded.buffer)
+
+    const output: Uint8Array[] = []
+    let bitsLeft = data.length * 8
+    let pos = 0
+    let x = view.getBigUint64(pos)
+    let n = 32
+
+    while (true) {
+      if (n <= 0) {
+        pos += 4
+        x = view.getBigUint64(pos)
+        n += 32
+      }
+      const code = (x >> BigInt(n)) & 0xFFFFFFFFn
+
+      let { codeLength, maxCode } = this.dict1[Number(code >> 24n)]
+      if (!this.dict1[Number(code >> 24n)].terminal) {
+        while (code < this.minCodes[codeLength]) {
+          codeLength++
+        }
+        maxCode = this.maxCodes[codeLength]
+      }
+
+      n -= codeLength
+      bitsLeft -= codeLength
+      if (bitsLeft < 0) break
+
+      const index = Number((maxCode - code) >> BigInt(32 - codeLength))
+      const entry = this.dictionary[index]
+      if (!entry.resolved) {
+        // 字典项本身也是压缩的，递归解压后缓存
+        entry.resolved = true
+        entry.data = this.unpack(entry.data)
+      }
+      output.push(entry.data)
+    }
+
+    return concatBytes(output)
+  }
+}
+
+// 读取INDX索引（NCX目录、KF8的骨架和片段表都使用这种结构）
+function readIndex(records: Uint8Array[], indexRecord: number, encoding: string): { entries: IndexEntry[], cncx: Map<number, string> } {
+  const decoder = new TextDecoder(encoding)
+  const entries: IndexEntry[] = []
+  const cncx = new Map<number, string>()
+
+  const mainRecord = records[indexRecord]
+  if (!mainRecord) return { entries, cncx }
+
+  const mainHeader = parseIndxHeader(mainRecord)
+  const { controlByteCount, tags } = parseTagx(mainRecord.subarray(mainHeader.headerLength))
+
+  // CNCX记录存放目录标题等字符串，紧跟在索引记录之后
+  for (let i = 0; i < mainHeader.cncxCount; i++) {
+    const record = records[indexRecord + 1 + mainHeader.count + i]
+    if (!record) break
+    let pos = 0
+    while (pos < record.length) {
+      const { value: length, consumed } = readForwardVarint(record, pos)
+      if (length > 0) {
+        cncx.set(i * 0x10000 + pos, decoder.decode(record.subarray(pos + consumed, pos + consumed + length)))
+      }
+      pos += consumed + length
+      if (consumed === 0) break
+    }
+  }
+
+  for (let i = indexRecord + 1; i <= indexRecord + mainHeader.count && i < records.length; i++) {
+    const record = records[i]
+    const view = new DataView(record.buffer, record.byteOffset, record.byteLength)
+    const header = parseIndxHeader(record)
+
+    const entryOffsets: number[] = []
+    for (let j = 0; j < header.count; j++) {
+      entryOffsets.push(view.getUint16(header.idxtStart + 4 + j * 2))
+    }
+    entryOffsets.push(header.idxtStart)
+
+    for (let j = 0; j < header.count; j++) {
+      const entry = record.subarray(entryOffsets[j], entryOffsets[j + 1])
+      const nameLength = entry[0]
+      const name = decoder.decode(entry.subarray(1, 1 + nameLength))
+      entries.push({
+        name,
+        tags: readTagValues(entry.subarray(1 + nameLength), controlByteCount, tags)
+      })
+    }
+  }
+
+  return { entries, cncx }
+}
+
+function parseIndxHeader(record: Uint8Array): { headerLength: number, idxtStart: number, count: number, cncxCount: number } {
+  if (String.fromCharCode(...record.subarray(0, 4)) !== 'INDX') {
+    throw new Error('无效的INDX记录')
+  }
+  const view = new DataView(record.buffer, record.byteOffset, record.byteLength)
+  return {
+    headerLength: view.getUint32(4),
+    idxtStart: view.getUint32(20),
+    count: view.getUint32(24),
+    cncxCount: view.getUint32(52)
+  }
+}
+
+function parseTagx(data: Uint8Array): { controlByteCount: number, tags: { tag: number, valueCount: number, bitmask: number, eof: number }[] } {
+  if (String.fromCharCode(...data.subarray(0, 4)) !== 'TAGX') {
+    return { controlByteCount: 0, tags: [] }
+  }
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  const firstEntryOffset = view.getUint32(4)
+  const controlByteCount = view.getUint32(8)
+  const tags = []
+  for (let i = 12; i + 4 <= firstEntryOffset; i += 4) {
+    tags.push({ tag: data[i], valueCount: data[i + 1], bitmask: data[i + 2], eof: data[i + 3] })
+  }
+  return { controlByteCount, tags }
+}
+
+// 根据TAGX描述和控制字节读取索引记录的标签值
+function readTagValues(
+  data: Uint8Array,
+  controlByteCount: number,
+  tagx: { tag: number, valueCount: number, bitmask: number, eof: number }[]
+): Map<number, number[]> {
+  const result = new Map<number, number[]>()
+  const parsedTags: { tag: number, count: number | null, byteLength: number | null, valuesPerEntry: number }[] = []
+  let controlIndex = 0
+  let pos = controlByteCount
+
+  for (const tag of tagx) {
+    if (tag.eof === 1) {
+      controlIndex++
+      continue
+    }
+    let value = data[controlIndex] & tag.bitmask
+    if (value === 0) continue
+
+    if (value === tag.bitmask) {
+      if (countSetBits(tag.bitmask) > 1) {
+        // 掩码全部置位且多于一位时，后面跟着的变长整数表示值所占的字节数
+        const { value: byteLength, consumed } = readForwardVarint(data, pos)
+        pos += consumed
+        parsedTags.push({ tag: tag.tag, count: null, byteLength, valuesPerEntry: tag.valueCount })
+      } else {
+        parsedTags.push({ tag: tag.tag, count: 1, byteLength: null, valuesPerEntry: tag.valueCount })
+      }
+    } else {
+      let mask = tag.bitmask
+      while ((mask & 1) === 0) {
+        mask >>= 1
+        value >>= 1
+      }
+      parsedTags.push({ tag: tag.tag, count: value, byteLength: null, valuesPerEntry: tag.valueCount })
+    }
+  }
+
+  for (const parsedTag of parsedTags) {
+    const values: number[] = []
+    if (parsedTag.count !== null) {
+      for (let i = 0; i < parsedTag.count * parsedTag.valuesPerEntry; i++) {
+        const { value, consumed } = readForwardVarint(data, pos)
+        pos += consumed
+        values.push(value)
+      }
+    } else if (parsedTag.byteLength !== null) {
+      let consumedTotal = 0
+      while (consumedTotal < parsedTag.byteLength) {
+        const { value, consumed } = readForwardVarint(data, pos)
+        pos += consumed
+        consumedTotal += consumed
+        values.push(value)
+        if (consumed === 0) break
+      }
+    }
+    result.set(parsedTag.tag, values)
+  }
+
+  return result
+}
+
+// 读取正向变长整数（最高位为1表示结束）
+function readForwardVarint(data: Uint8Array, offset: number): { value: number, consumed: number } {
+  let value = 0
+  let consumed = 0
+  while (offset + consumed < data.length && consumed < 4) {
+    const byte = data[offset + consumed]
+    consumed++
+    value = (value << 7) | (byte & 0x7F)
+    if (byte & 0x80) break
+  }
+  return { value, consumed }
+}
+
+function countSetBits(value: number): number {
+  let count = 0
+  while (value) {
+    count += value & 1
+    value >>= 1
+  }
+  return count
+}
+
+// KF8把每个HTML文件拆成骨架和片段存储，按骨架表和片段表把片段插回骨架
+function rebuildKF8Text(rawText: Uint8Array, records: Uint8Array[], header: MobiHeader): { text: Uint8Array, fragments: { insertPos: number }[] } {
+  const skeletons = readIndex(records, header.skeletonIndex, header.encoding).entries.map(entry => ({
+    fragmentCount: entry.tags.get(1)?.[0] ?? 0,
+    start: entry.tags.get(6)?.[0] ?? 0,
+    length: entry.tags.get(6)?.[1] ?? 0
+  }))
+  const fragments = readIndex(records, header.fragmentIndex, header.encoding).entries.map(entry => ({
+    insertPos: parseInt(entry.name, 10),
+    length: entry.tags.get(6)?.[1] ?? 0
+  }))
+
+  const parts: Uint8Array[] = []
+  let fragmentIndex = 0
+  for (const skeleton of skeletons) {
+    let part = rawText.subarray(skeleton.start, skeleton.start + skeleton.length)
+    let basePos = skeleton.start + skeleton.length
+    for (let i = 0; i < skeleton.fragmentCount && fragmentIndex < fragments.length; i++, fragmentIndex++) {
+      const fragment = fragments[fragmentIndex]
+      const insertPos = fragment.insertPos - skeleton.start
+      part = concatBytes([
+        part.subarray(0, insertPos),
+        rawText.subarray(basePos, basePos + fragment.length),
+        part.subarray(insertPos)
+      ])
+      basePos += fragment.length
+    }
+    parts.push(part)
+  }
+
+  console.log(`🔧 [DEBUG] KF8重建完成: ${skeletons.length} 个骨架, ${fragments.length} 个片段`)
+
+  return { text: parts.length > 0 ? concatBytes(parts) : rawText, fragments }
+}
+
+// 读取NCX目录；KF8的目录位置以“片段编号+偏移”表示
+function readToc(records: Uint8Array[], header: MobiHeader, fragments: { insertPos: number }[]): TocEntry[] {
+  try {
+    const { entries, cncx } = readIndex(records, header.ncxIndex, header.encoding)
+    return entries.map((entry, index) => {
+      const posFid = entry.tags.get(6)
+      const fragment = posFid ? fragments[posFid[0]] : undefined
+      const pos = fragment ? fragment.insertPos + posFid![1] : entry.tags.get(1)?.[0] ?? 0
+      const labelOffset = entry.tags.get(3)?.[0]
+      const firstChild = entry.tags.get(22)?.[0]
+      const lastChild = entry.tags.get(23)?.[0]
+      const children: number[] = []
+      if (firstChild !== undefined && lastChild !== undefined) {
+        for (let child = firstChild; child <= lastChild; child++) children.push(child)
+      }
+
+      return {
+        title: (labelOffset !== undefined ? cncx.get(labelOffset) : undefined) || `章节 ${index + 1}`,
+        pos,
+        depth: entry.tags.get(4)?.[0] ?? 0,
+        parent: entry.tags.get(21)?.[0] ?? -1,
+        children
+      }
+    })
+  } catch (error) {
+    console.warn(`⚠️ [DEBUG] 无法读取NCX目录:`, error)
+    return []
+  }
+}
+
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const totalLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0)
+  const result = new Uint8Array(totalLength)
+  let offset = 0
+  for (const chunk of chunks) {
+    result.set(chunk, offset)
+    offset += chunk.length
+  }
+  return result
+}
+
+function getImageMimeType(data: Uint8Array): string {
+  if (data[0] === 0x89 && data[1] === 0x50) return 'image/png'
+  if (data[0] === 0x47 && data[1] === 0x49) return 'image/gif'
+  return 'image/jpeg'
+}
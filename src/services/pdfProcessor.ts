@@ -2,6 +2,8 @@ import * as pdfjsLib from 'pdfjs-dist'
 import workerSrc from 'pdfjs-dist/build/pdf.worker?worker&url'
 import { SKIP_CHAPTER_KEYWORDS } from './constants'
 import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { TextItem as PdfTextItem } from 'pdfjs-dist/types/src/display/api'
+import type { ChapterData as BaseChapterData, BookData as BaseBookData } from './bookFormat'
 
 // 设置 PDF.js worker - 使用本地文件
 if (typeof window !== 'undefined') {
@@ -15,21 +17,51 @@ interface TextItem {
   isBold: boolean
   x: number
   y: number
+  width: number
 }
 
-export interface ChapterData {
-  id: string
+// 页面中按阅读顺序排列的一行文本
+interface PageLine {
+  str: string
+  fontSize: number
+  isBold: boolean
+  x: number
+  y: number
+  width: number
+}
+
+// 合并为段落后的Markdown块
+interface MarkdownBlock {
+  type: TextItem['type']
+  text: string
+}
+
+// 检测到的章节标题
+interface HeadingCandidate {
   title: string
-  content: string
+  pageNumber: number
+  fontSize: number
+  matchesPattern: boolean
+}
+
+// 常见的章节标题模式："Chapter 12"、"Part II"、"第十二章"、"序言" 等
+const CHAPTER_HEADING_PATTERNS = [
+  /^(chapter|part|book|section)\s+([0-9]+|[ivxlcdm]+|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|thirteen|fourteen|fifteen|sixteen|seventeen|eighteen|nineteen|twenty)\b/i,
+  /^第\s*[0-9一二三四五六七八九十百千零〇两]+\s*[章节回部篇卷]/,
+  /^(prologue|epilogue|introduction|conclusion|序言|序章|前言|引言|导言|楔子|尾声|后记|结语)$/i
+]
+
+// 既没有目录也检测不到章节标题时，按固定页数切分章节
+const FALLBACK_PAGES_PER_CHAPTER = 10
+
+export interface ChapterData extends BaseChapterData {
   // PDF特有的页面信息
   startPage?: number
   endPage?: number
   pageIndex?: number
 }
 
-export interface BookData {
-  title: string
-  author: string
+export interface BookData extends BaseBookData {
   totalPages: number
   // 保存PDF文档实例用于后续页面渲染
   pdfDocument?: any
@@ -68,7 +100,7 @@ export class PdfProcessor {
     }
   }
 
-  async extractChapters(file: File, skipNonEssentialChapters: boolean = true, maxSubChapterDepth: number = 0): Promise<ChapterData[]> {
+  async extractChapters(file: File, skipNonEssentialChapters: boolean = true, maxSubChapterDepth: number = 0, removeHeadersFooters: boolean = true): Promise<ChapterData[]> {
     try {
       const arrayBuffer = await file.arrayBuffer()
       const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise
@@ -78,6 +110,9 @@ export class PdfProcessor {
 
       console.log(`📚 [DEBUG] 开始提取PDF内容，总页数: ${totalPages}`)
 
+      // 页眉页脚需要在整本书范围内检测，先统一提取并清理所有页面，各章节再按页码范围截取
+      const pages = await this.extractDocumentPages(pdf, removeHeadersFooters)
+
       // 首先尝试使用PDF的outline（书签/目录）来获取章节
       try {
         const outline = await pdf.getOutline()
@@ -104,7 +139,7 @@ export class PdfProcessor {
 
               console.log(`📄 [DEBUG] 提取章节 "${chapterInfo.title}" (第${startPage}-${endPage}页)`)
 
-              const chapterContent = await this.extractTextFromPages(pdf, startPage, endPage)
+              const chapterContent = this.extractTextFromPages(pages, startPage, endPage)
 
               if (chapterContent.trim().length > 100) {
                 chapters.push({
@@ -127,33 +162,7 @@ export class PdfProcessor {
       if (chapters.length === 0) {
         console.log(`📖 [DEBUG] 使用备用分章节方法`)
 
-        // 获取所有页面的文本内容
-        const allPageTexts: string[] = []
-
-        for (let pageNum = 1; pageNum <= totalPages; pageNum++) {
-          console.log(`📖 [DEBUG] 处理第 ${pageNum}/${totalPages} 页`)
-
-          try {
-            const page = await pdf.getPage(pageNum)
-            const textContent = await page.getTextContent()
-
-            // 提取页面文本
-            const pageText = textContent.items
-              .map((item: any) => item.str)
-              .join(' ')
-              .trim()
-
-            allPageTexts.push(pageText)
-            console.log(`📄 [DEBUG] 第${pageNum}页文本长度: ${pageText.length} 字符`)
-          } catch (pageError) {
-            console.warn(`❌ [DEBUG] 跳过第${pageNum}页:`, pageError)
-            allPageTexts.push('')
-          }
-        }
-
-        let detectedChapters: ChapterData[] = []
-
-
+        const detectedChapters = await this.detectChaptersFromHeadings(pdf, pages, skipNonEssentialChapters)
 
         chapters.push(...detectedChapters)
 
@@ -214,125 +223,233 @@ export class PdfProcessor {
     return chapterInfos
   }
 
-  private async extractTextFromPages(pdf: PDFDocumentProxy, startPage: number, endPage: number): Promise<string> {
-    const allStructuredContent: TextItem[][] = []
+  // 无目录时的备用方法：根据字号、粗体、页面位置和章节标题模式检测章节边界
+  private async detectChaptersFromHeadings(pdf: PDFDocumentProxy, pages: TextItem[][], skipNonEssentialChapters: boolean): Promise<ChapterData[]> {
+    const totalPages = pdf.numPages
+    const pagesLines: { lines: PageLine[], pageHeight: number }[] = []
 
-    for (let pageNum = startPage; pageNum <= endPage; pageNum++) {
+    for (let pageNum = 1; pageNum <= totalPages; pageNum++) {
       try {
         const page = await pdf.getPage(pageNum)
         const textContent = await page.getTextContent()
+        const pageHeight = page.getViewport({ scale: 1 }).height
+        const pageWidth = page.getViewport({ scale: 1 }).width
+        const items = textContent.items.filter((item): item is PdfTextItem => 'str' in item)
+        const lines = buildReadingOrderLines(items, textContent.styles, pageWidth)
+        pagesLines.push({ lines, pageHeight })
+        console.log(`📄 [DEBUG] 第${pageNum}页识别到 ${lines.length} 行文本`)
+      } catch (pageError) {
+        console.warn(`❌ [DEBUG] 跳过第${pageNum}页:`, pageError)
+        pagesLines.push({ lines: [], pageHeight: 0 })
+      }
+    }
 
-        if (textContent.items.length === 0) continue
+    const bodyFontSize = getBodyFontSize(pagesLines.flatMap(page => page.lines))
+    if (bodyFontSize === 0) {
+      return this.splitByPageRanges(pages, 1, totalPages)
+    }
+    console.log(`📏 [DEBUG] 正文字号估计: ${bodyFontSize}`)
 
-        // 分析字体大小分布，找出标题
-        const fontSizes = textContent.items
-          .filter((item: any) => item.height)
-          .map((item: any) => item.height)
+    const candidates: HeadingCandidate[] = []
+    pagesLines.forEach(({ lines, pageHeight }, pageIndex) => {
+      const candidate = this.findHeadingOnPage(lines, pageHeight, bodyFontSize)
+      if (candidate) {
+        candidates.push({ ...candidate, pageNumber: pageIndex + 1 })
+      }
+    })
 
-        if (fontSizes.length === 0) continue
+    // 如果有足够多符合章节模式的标题，只使用这些标题，避免把普通大字号文本误判为章节
+    const patternHeadings = candidates.filter(candidate => candidate.matchesPattern)
+    const headings = patternHeadings.length >= 2
+      ? patternHeadings
+      : candidates.filter(candidate => candidate.matchesPattern || candidate.fontSize >= bodyFontSize * 1.4)
 
-        const avgFontSize = fontSizes.reduce((a: number, b: number) => a + b, 0) / fontSizes.length
+    console.log(`📖 [DEBUG] 检测到 ${headings.length} 个章节标题`, headings)
 
+    if (headings.length === 0) {
+      console.log(`📖 [DEBUG] 未检测到章节标题，按每${FALLBACK_PAGES_PER_CHAPTER}页切分章节`)
+      return this.splitByPageRanges(pages, 1, totalPages)
+    }
 
-        const pageStructuredContent: TextItem[] = []
-        let prevY = -1
-        let lineItems: any[] = []
+    // 第一个标题之前的页面（扉页、正文开头等）单独作为一个章节，避免内容丢失
+    const chapters: ChapterData[] = headings[0].pageNumber > 1
+      ? this.splitByPageRanges(pages, 1, headings[0].pageNumber - 1, headings[0].pageNumber - 1)
+      : []
+    for (let i = 0; i < headings.length; i++) {
+      const heading = headings[i]
 
-        // 将同一行的文本项组合在一起
-        textContent.items.forEach((item: any, index: number) => {
-          const currentY = item.transform[5]
+      if (skipNonEssentialChapters && this.shouldSkipChapter(heading.title)) {
+        console.log(`⏭️ [DEBUG] 跳过无关键内容章节: "${heading.title}"`)
+        continue
+      }
 
-          // 如果Y坐标变化，说明是新的一行
-          if (prevY !== -1 && Math.abs(currentY - prevY) > 2) {
-            if (lineItems.length > 0) {
-              processLine(lineItems, avgFontSize, pageStructuredContent)
-              lineItems = []
-            }
-          }
+      const startPage = heading.pageNumber
+      const endPage = headings[i + 1] ? headings[i + 1].pageNumber - 1 : totalPages
 
-          lineItems.push(item)
-          prevY = currentY
+      console.log(`📄 [DEBUG] 提取章节 "${heading.title}" (第${startPage}-${endPage}页)`)
 
-          // 处理最后一行
-          if (index === textContent.items.length - 1 && lineItems.length > 0) {
-            processLine(lineItems, avgFontSize, pageStructuredContent)
-          }
-        })
+      const chapterContent = this.extractTextFromPages(pages, startPage, endPage)
 
-        allStructuredContent.push(pageStructuredContent)
-      } catch (error) {
-        console.warn(`⚠️ [DEBUG] 跳过第${pageNum}页:`, error)
+      if (chapterContent.trim().length > 100) {
+        chapters.push({
+          id: `${i}-${heading.title}`,
+          title: heading.title,
+          content: chapterContent,
+          startPage,
+          endPage,
+          pageIndex: startPage - 1
+        })
       }
     }
 
-    // 辅助函数：处理一行文本
-    function processLine(items: any[], avgSize: number, output: TextItem[]) {
-      if (items.length === 0) return
-
-      // 合并行内所有文本
-      const lineText = items.map((item: any) => item.str).join('').trim()
-      if (!lineText) return
-
-      // 使用行中最大的字体大小和第一个项的属性
-      const maxItemFontSize = Math.max(...items.map((item: any) => item.height || 0))
-      const firstItem = items[0]
-      const fontSize = maxItemFontSize
-      const fontName = firstItem.fontName || ''
-      const isBold = fontName.toLowerCase().includes('bold')
-      const x = firstItem.transform[4]
-      const y = firstItem.transform[5]
-
-      let type: 'title' | 'subtitle' | 'list' | 'quote' | 'normal' = 'normal'
-
-      // 判断是否是标题（字体明显大于平均）
-      if (fontSize > avgSize * 1.4) {
-        type = 'title'
-      } else if (fontSize > avgSize * 1.15 || (isBold && fontSize > avgSize * 1.05)) {
-        type = 'subtitle'
+    return chapters
+  }
+
+  // 按页码范围切分章节，标题为页码范围
+  private splitByPageRanges(
+    pages: TextItem[][],
+    startPage: number,
+    endPage: number,
+    pagesPerChapter: number = FALLBACK_PAGES_PER_CHAPTER
+  ): ChapterData[] {
+    const chapters: ChapterData[] = []
+    for (let rangeStart = startPage; rangeStart <= endPage; rangeStart += pagesPerChapter) {
+      const rangeEnd = Math.min(rangeStart + pagesPerChapter - 1, endPage)
+      const title = rangeStart === rangeEnd ? `第${rangeStart}页` : `第${rangeStart}-${rangeEnd}页`
+      const chapterContent = this.extractTextFromPages(pages, rangeStart, rangeEnd)
+
+      if (chapterContent.trim().length > 100) {
+        chapters.push({
+          id: `pages-${rangeStart}-${rangeEnd}`,
+          title,
+          content: chapterContent,
+          startPage: rangeStart,
+          endPage: rangeEnd,
+          pageIndex: rangeStart - 1
+        })
       }
+    }
+    return chapters
+  }
 
-      // 判断列表（检查常见列表标记）
-      const listPattern = /^[\-\*\•●○◦►▪▫■□☐☑☒✓✔✗✘]|\d+[\.\)、]|[\(（][a-zA-Z0-9一二三四五六七八九十][\)）]|^[a-zA-Z一二三四五六七八九十][\.\)、]/
-      if (listPattern.test(lineText)) {
-        type = 'list'
+  // 在页面顶部区域寻找最可能的章节标题
+  private findHeadingOnPage(lines: PageLine[], pageHeight: number, bodyFontSize: number): Omit<HeadingCandidate, 'pageNumber'> | null {
+    // PDF坐标系的y轴向上，y值越大越靠近页面顶部
+    const topLines = [...lines].sort((a, b) => b.y - a.y).slice(0, 5)
+
+    let best: { line: PageLine, index: number, score: number, matchesPattern: boolean } | null = null
+    for (let index = 0; index < topLines.length; index++) {
+      const line = topLines[index]
+      const text = line.str.trim()
+      if (!text || text.length > 80 || /^\d+$/.test(text)) continue
+
+      const matchesPattern = CHAPTER_HEADING_PATTERNS.some(pattern => pattern.test(text))
+      let score = 0
+      if (matchesPattern) score += 3
+      if (line.fontSize >= bodyFontSize * 1.5) score += 2
+      else if (line.fontSize >= bodyFontSize * 1.2) score += 1
+      if (line.isBold) score += 1
+      if (pageHeight > 0 && line.y >= pageHeight * 0.6) score += 1
+
+      if (score >= 3 && (!best || score > best.score)) {
+        best = { line, index, score, matchesPattern }
       }
+    }
+
+    if (!best) return null
+    const { line, index, matchesPattern } = best
+
+    // "Chapter 3" 下一行常常是章节名，同样是大字号时合并为完整标题
+    let title = line.str.trim()
+    const nextLine = topLines[index + 1]
+    if (
+      matchesPattern &&
+      nextLine &&
+      nextLine.str.trim().length <= 80 &&
+      nextLine.fontSize >= bodyFontSize * 1.2 &&
+      !CHAPTER_HEADING_PATTERNS.some(pattern => pattern.test(nextLine.str.trim()))
+    ) {
+      title = `${title} ${nextLine.str.trim()}`
+    }
+
+    return { title, fontSize: line.fontSize, matchesPattern }
+  }
 
-      // 判断引用（通常以引号开头或特定标记）
-      const quotePattern = /^[""「『【]/
-      if (quotePattern.test(lineText)) {
-        type = 'quote'
+  // 提取所有页面的结构化文本行，按页码顺序排列（无法解析或没有文本的页面为空数组）
+  private async extractDocumentPages(pdf: PDFDocumentProxy, removeHeadersFooters: boolean): Promise<TextItem[][]> {
+    const allStructuredContent: TextItem[][] = []
+
+    for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
+      allStructuredContent.push([])
+      try {
+        const page = await pdf.getPage(pageNum)
+        const textContent = await page.getTextContent()
+
+        const items = textContent.items.filter((item): item is PdfTextItem => 'str' in item)
+        if (items.length === 0) continue
+
+        // 分析字体大小分布，找出标题
+        const fontSizes = items
+          .filter(item => item.height)
+          .map(item => item.height)
+
+        if (fontSizes.length === 0) continue
+
+        const avgFontSize = fontSizes.reduce((a, b) => a + b, 0) / fontSizes.length
+
+        // 按栏位重建阅读顺序，避免双栏排版的内容逐行交错
+        const pageWidth = page.getViewport({ scale: 1 }).width
+        const lines = buildReadingOrderLines(items, textContent.styles, pageWidth)
+
+        allStructuredContent[pageNum - 1] = lines.map(line => classifyLine(line, avgFontSize))
+      } catch (error) {
+        console.warn(`⚠️ [DEBUG] 跳过第${pageNum}页:`, error)
       }
+    }
 
-      output.push({
-        str: lineText,
-        type,
-        fontSize,
-        isBold,
-        x,
-        y
-      })
+    // 在转换为Markdown之前去除页眉、页脚和页码
+    return removeHeadersFooters
+      ? removeRunningHeadersAndFooters(allStructuredContent)
+      : allStructuredContent
+  }
 
+  // 截取页码范围内已清理的页面并转换为Markdown
+  private extractTextFromPages(pages: TextItem[][], startPage: number, endPage: number): string {
+    // 将软换行的行合并为段落，并把跨页断开的段落接上
+    const blocks: MarkdownBlock[] = []
+    for (const pageBlocks of pages.slice(startPage - 1, endPage).map(buildParagraphBlocks)) {
+      const lastBlock = blocks[blocks.length - 1]
+      const firstBlock = pageBlocks[0]
+      if (
+        lastBlock && firstBlock &&
+        lastBlock.type === 'normal' && firstBlock.type === 'normal' &&
+        !SENTENCE_END_PATTERN.test(lastBlock.text)
+      ) {
+        lastBlock.text = joinWrappedLines(lastBlock.text, firstBlock.text)
+        blocks.push(...pageBlocks.slice(1))
+      } else {
+        blocks.push(...pageBlocks)
+      }
     }
 
     // 格式化输出
-    const formattedPages = allStructuredContent.map(pageContent => {
-      return pageContent.map(item => {
-        switch (item.type) {
-          case 'title':
-            return `\n# ${item.str}\n`
-          case 'subtitle':
-            return `\n## ${item.str}\n`
-          case 'list':
-            return `- ${item.str}`
-          case 'quote':
-            return `> ${item.str}`
-          default:
-            return item.str
-        }
-      }).join('\n')
-    })
-
-    return formattedPages.join('\n\n')
+    return blocks.map((block, index) => {
+      const prevBlock = blocks[index - 1]
+      // 连续的列表项和引用保持紧凑
+      const separator = !prevBlock ? '' : prevBlock.type === block.type && (block.type === 'list' || block.type === 'quote') ? '\n' : '\n\n'
+      switch (block.type) {
+        case 'title':
+          return `${separator}# ${block.text}`
+        case 'subtitle':
+          return `${separator}## ${block.text}`
+        case 'list':
+          return `${separator}- ${block.text}`
+        case 'quote':
+          return `${separator}> ${block.text}`
+        default:
+          return `${separator}${block.text}`
+      }
+    }).join('')
   }
 
 
@@ -398,4 +515,293 @@ export class PdfProcessor {
 
     return pages
   }
-}
\ No newline at end of file
+}
+
+// 检测多栏排版的栏间空白，返回每条栏间分隔线的x坐标
+function detectColumnGutters(items: PdfTextItem[], pageWidth: number): number[] {
+  const textItems = items.filter(item => item.str.trim())
+  if (pageWidth <= 0 || textItems.length < 20) return []
+
+  // 统计页面宽度上每个区间被文本覆盖的次数
+  const binCount = 100
+  const binWidth = pageWidth / binCount
+  const coverage = new Array<number>(binCount).fill(0)
+  for (const item of textItems) {
+    const start = Math.max(0, Math.floor(item.transform[4] / binWidth))
+    const end = Math.min(binCount - 1, Math.floor((item.transform[4] + item.width) / binWidth))
+    for (let bin = start; bin <= end; bin++) coverage[bin]++
+  }
+
+  const total = coverage.reduce((a, b) => a + b, 0)
+  // 跨栏的标题也会经过栏间空白，因此允许少量覆盖
+  const threshold = Math.max(...coverage) * 0.1
+  const gutters: number[] = []
+  let runStart = -1
+
+  for (let bin = 15; bin <= 85; bin++) {
+    if (coverage[bin] <= threshold) {
+      if (runStart === -1 && coverage[bin - 1] > threshold) runStart = bin
+    } else if (runStart !== -1) {
+      const gutterX = ((runStart + bin) / 2) * binWidth
+      const leftCoverage = coverage.slice(0, runStart).reduce((a, b) => a + b, 0)
+      const rightCoverage = coverage.slice(bin).reduce((a, b) => a + b, 0)
+      // 空白至少两个区间宽，且两侧都有足够的正文
+      if (bin - runStart >= 2 && leftCoverage >= total * 0.2 && rightCoverage >= total * 0.2) {
+        gutters.push(gutterX)
+      }
+      runStart = -1
+    }
+  }
+
+  return gutters
+}
+
+// 将一组同行的文本项按x坐标拼接为一行
+function mergeLineItems(items: PdfTextItem[], styles: Record<string, { fontFamily: string }>): PageLine | null {
+  const sortedItems = [...items].sort((a, b) => a.transform[4] - b.transform[4])
+  const fontSize = Math.max(...sortedItems.map(item => item.height || 0))
+
+  let str = ''
+  let prevItem: PdfTextItem | null = null
+  for (const item of sortedItems) {
+    if (prevItem) {
+      const gap = item.transform[4] - (prevItem.transform[4] + prevItem.width)
+      // 文本项之间有明显间隔且没有自带空格时补上空格
+      if (gap > fontSize * 0.15 && !/\s$/.test(str) && !/^\s/.test(item.str)) {
+        str += ' '
+      }
+    }
+    str += item.str
+    prevItem = item
+  }
+
+  str = str.trim()
+  if (!str) return null
+
+  const firstItem = sortedItems[0]
+  const lastItem = sortedItems[sortedItems.length - 1]
+  const fontFamily = styles[firstItem.fontName]?.fontFamily || ''
+  return {
+    str,
+    fontSize,
+    isBold: /bold|black|heavy/i.test(`${firstItem.fontName} ${fontFamily}`),
+    x: firstItem.transform[4],
+    y: firstItem.transform[5],
+    width: lastItem.transform[4] + lastItem.width - firstItem.transform[4]
+  }
+}
+
+// 按栏位重建页面的阅读顺序：跨栏的行（如标题）把页面分成若干段，每段内先读完左栏再读右栏
+function buildReadingOrderLines(items: PdfTextItem[], styles: Record<string, { fontFamily: string }>, pageWidth: number): PageLine[] {
+  const textItems = items.filter(item => item.str)
+  const gutters = detectColumnGutters(textItems, pageWidth)
+
+  // 先按y坐标把文本项分成行（PDF坐标系的y轴向上）
+  const sortedItems = [...textItems].sort((a, b) => b.transform[5] - a.transform[5] || a.transform[4] - b.transform[4])
+  const rows: PdfTextItem[][] = []
+  for (const item of sortedItems) {
+    const currentRow = rows[rows.length - 1]
+    const tolerance = Math.max(2, (item.height || 0) * 0.3)
+    if (currentRow && Math.abs(currentRow[0].transform[5] - item.transform[5]) <= tolerance) {
+      currentRow.push(item)
+    } else {
+      rows.push([item])
+    }
+  }
+
+  const getColumnIndex = (item: PdfTextItem) => gutters.filter(gutter => item.transform[4] >= gutter).length
+  const spansGutter = (item: PdfTextItem) => gutters.some(gutter =>
+    item.str.trim() && item.transform[4] < gutter && item.transform[4] + item.width > gutter
+  )
+
+  const orderedLines: PageLine[] = []
+  const pendingColumns: PageLine[][] = gutters.map(() => []).concat([[]])
+  const flushColumns = () => {
+    for (const columnLines of pendingColumns) {
+      orderedLines.push(...columnLines)
+      columnLines.length = 0
+    }
+  }
+
+  for (const row of rows) {
+    if (gutters.length === 0 || row.some(spansGutter)) {
+      flushColumns()
+      const line = mergeLineItems(row, styles)
+      if (line) orderedLines.push(line)
+      continue
+    }
+
+    const columnItems = new Map<number, PdfTextItem[]>()
+    for (const item of row) {
+      const columnIndex = getColumnIndex(item)
+      columnItems.set(columnIndex, [...(columnItems.get(columnIndex) || []), item])
+    }
+    columnItems.forEach((itemsInColumn, columnIndex) => {
+      const line = mergeLineItems(itemsInColumn, styles)
+      if (line) pendingColumns[columnIndex].push(line)
+    })
+  }
+  flushColumns()
+
+  return orderedLines
+}
+
+// 根据字号和行首标记判断行的类型
+function classifyLine(line: PageLine, avgFontSize: number): TextItem {
+  const { str: lineText, fontSize, isBold } = line
+
+  let type: TextItem['type'] = 'normal'
+
+  // 判断是否是标题（字体明显大于平均）
+  if (fontSize > avgFontSize * 1.4) {
+    type = 'title'
+  } else if (fontSize > avgFontSize * 1.15 || (isBold && fontSize > avgFontSize * 1.05)) {
+    type = 'subtitle'
+  }
+
+  // 判断列表（检查常见列表标记）
+  const listPattern = /^[\-\*\•●○◦►▪▫■□☐☑☒✓✔✗✘]|\d+[\.\)、]|[\(（][a-zA-Z0-9一二三四五六七八九十][\)）]|^[a-zA-Z一二三四五六七八九十][\.\)、]/
+  if (listPattern.test(lineText)) {
+    type = 'list'
+  }
+
+  // 判断引用（通常以引号开头或特定标记）
+  const quotePattern = /^[""「『【]/
+  if (quotePattern.test(lineText)) {
+    type = 'quote'
+  }
+
+  return { ...line, type }
+}
+
+// 句末标点，用于判断段落是否结束
+const SENTENCE_END_PATTERN = /[.!?。！？…:：;；"”’』」)）]$/
+
+const CJK_CHAR_PATTERN = /[\u3000-\u30ff\u3400-\u9fff\uff00-\uffef]/
+
+// 合并软换行的两行：修复行尾连字符断词，中日文之间不加空格
+function joinWrappedLines(prev: string, next: string): string {
+  if (/[A-Za-z]-$/.test(prev) && /^[a-z]/.test(next)) {
+    return prev.slice(0, -1) + next
+  }
+  if (CJK_CHAR_PATTERN.test(prev.slice(-1)) && CJK_CHAR_PATTERN.test(next.charAt(0))) {
+    return prev + next
+  }
+  return `${prev} ${next}`
+}
+
+// 将一页中连续的正文行合并为段落
+function buildParagraphBlocks(pageContent: TextItem[]): MarkdownBlock[] {
+  const normalLines = pageContent.filter(item => item.type === 'normal')
+
+  // 以正文行的典型行距和最大行宽作为段落判断的基准
+  const lineGaps = normalLines
+    .slice(1)
+    .map((item, index) => normalLines[index].y - item.y)
+    .filter(gap => gap > 0)
+    .sort((a, b) => a - b)
+  const typicalGap = lineGaps.length > 0 ? lineGaps[Math.floor(lineGaps.length / 2)] : 0
+  const maxWidth = Math.max(0, ...normalLines.map(item => item.width))
+
+  const blocks: MarkdownBlock[] = []
+  let prevItem: TextItem | null = null
+
+  for (const item of pageContent) {
+    const lastBlock = blocks[blocks.length - 1]
+
+    if (item.type === 'normal' && prevItem?.type === 'normal' && lastBlock?.type === 'normal') {
+      const gap = prevItem.y - item.y
+      const movedToNextColumn = gap < 0
+      const startsNewParagraph = movedToNextColumn
+        // 换栏时只有上一行已经结束句子才另起一段
+        ? SENTENCE_END_PATTERN.test(prevItem.str)
+        : (typicalGap > 0 && gap > typicalGap * 1.5) ||
+          (SENTENCE_END_PATTERN.test(prevItem.str) && prevItem.width < maxWidth * 0.85) ||
+          item.x > prevItem.x + item.fontSize
+
+      if (!startsNewParagraph) {
+        lastBlock.text = joinWrappedLines(lastBlock.text, item.str)
+        prevItem = item
+        continue
+      }
+    }
+
+    blocks.push({ type: item.type, text: item.str })
+    prevItem = item
+  }
+
+  return blocks
+}
+
+// 按字符数加权统计出现最多的字号，作为正文字号
+function getBodyFontSize(lines: PageLine[]): number {
+  const weights = new Map<number, number>()
+  for (const line of lines) {
+    if (!line.fontSize) continue
+    const size = Math.round(line.fontSize * 2) / 2
+    weights.set(size, (weights.get(size) || 0) + line.str.length)
+  }
+
+  let bodyFontSize = 0
+  let maxWeight = 0
+  weights.forEach((weight, size) => {
+    if (weight > maxWeight) {
+      maxWeight = weight
+      bodyFontSize = size
+    }
+  })
+  return bodyFontSize
+}
+
+// 页码的常见形式："12"、"- 12 -"、"Page 12"、"12 / 300"、"第12页"
+const PAGE_NUMBER_PATTERN = /^(?:[-–—\s]*\d+[-–—\s]*|page\s+\d+(?:\s*(?:of|\/)\s*\d+)?|\d+\s*\/\s*\d+|第\s*\d+\s*页(?:\s*[/／共]\s*\d+\s*页?)?)$/i
+// 前言部分的小写罗马数字页码（i 到 lxxxix），区分大小写，避免把 "I"、"Mix"、"Civil" 这样的单词当作页码
+const ROMAN_PAGE_NUMBER_PATTERN = /^(?=[ivxl])l?x{0,3}(?:ix|iv|v?i{0,3})$/
+
+// 每页顶部和底部参与重复检测的行数
+const HEADER_FOOTER_LINE_COUNT = 2
+// 页眉页脚至少重复出现的页数，避免把恰好在两页相同位置出现的正文行当作页眉
+const MIN_HEADER_FOOTER_PAGES = 3
+
+// 去除在多页相同y位置重复出现的行（书名、章节名等页眉页脚）以及页码，需要传入整本书的页面
+function removeRunningHeadersAndFooters(pages: TextItem[][]): TextItem[][] {
+  // 数字统一替换，使 "12 Book Title" 与 "14 Book Title" 视为同一页眉
+  const getLineKey = (item: TextItem) =>
+    `${Math.round(item.y / 4)}|${item.str.toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ').trim()}`
+
+  const getEdgeLines = (pageContent: TextItem[]) => {
+    const sortedByY = [...pageContent].sort((a, b) => b.y - a.y)
+    return new Set([
+      ...sortedByY.slice(0, HEADER_FOOTER_LINE_COUNT),
+      ...sortedByY.slice(-HEADER_FOOTER_LINE_COUNT)
+    ])
+  }
+
+  const edgeLinesByPage = pages.map(getEdgeLines)
+
+  // 记录每个页眉页脚候选出现在哪些页
+  const keyPages = new Map<string, number[]>()
+  edgeLinesByPage.forEach((edgeLines, pageIndex) => {
+    const pageKeys = new Set(Array.from(edgeLines).map(getLineKey))
+    pageKeys.forEach(key => keyPages.set(key, [...(keyPages.get(key) || []), pageIndex]))
+  })
+
+  // 书名贯穿全书，章节名只出现在该章的页面中，因此按首次到末次出现之间的页数计算密度；
+  // 奇偶页常常分别显示书名和章节名，密度阈值取30%
+  const runningKeys = new Set<string>()
+  keyPages.forEach((pageIndexes, key) => {
+    if (pageIndexes.length < MIN_HEADER_FOOTER_PAGES) return
+    const span = pageIndexes[pageIndexes.length - 1] - pageIndexes[0] + 1
+    if (pageIndexes.length >= span * 0.3) runningKeys.add(key)
+  })
+
+  return pages.map((pageContent, pageIndex) => {
+    const edgeLines = edgeLinesByPage[pageIndex]
+    return pageContent.filter(item => {
+      if (!edgeLines.has(item)) return true
+      const text = item.str.trim()
+      if (PAGE_NUMBER_PATTERN.test(text) || ROMAN_PAGE_NUMBER_PATTERN.test(text)) return false
+      return !runningKeys.has(getLineKey(item))
+    })
+  })
+}
@@ -88,4 +88,28 @@ ${defaultPrompt}
   return `${chapterContent}
 
 ${defaultPrompt}`
+}
+
+// 内容超出模型上下文时先分块总结，再用此prompt把各分块的总结合并为一份
+export const getChunkSummaryMergePrompt = (title: string, partialSummaries: string[], customPrompt?: string) => {
+  const parts = partialSummaries
+    .map((summary, index) => `### 第 ${index + 1} 部分\n\n${summary}`)
+    .join('\n\n')
+
+  const prompt = `以下是「${title}」按原文顺序分成 ${partialSummaries.length} 个部分后分别生成的总结：
+
+${parts}
+
+请将这些部分总结合并为一份完整、连贯的总结：
+- 沿用各部分总结的markdown格式和标题结构，只输出一份总结
+- 按原文顺序整合内容，合并重复的人物、观点、概念和事件
+- 不要提及"第几部分"或分块处理的过程`
+
+  if (customPrompt && customPrompt.trim()) {
+    return `${prompt}
+
+补充要求：${customPrompt.trim()}`
+  }
+
+  return prompt
 }
\ No newline at end of file
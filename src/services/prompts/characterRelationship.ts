@@ -41,3 +41,17 @@ ${chapterSummaries}
 
   return userPrompt
 }
+
+// mermaid 代码解析失败时，附加在原提示词之后重新请求
+export const getMermaidFixPrompt = (chart: string, error: string) => `
+
+**上一次返回的mermaid代码无法被解析**：
+\`\`\`mermaid
+${chart}
+\`\`\`
+
+解析错误：
+${error}
+
+请重新生成并修正以上语法错误：节点文字中包含括号、引号、冒号等特殊字符时用双引号包裹，如 A["张三（主角）"]，连线文字同样用双引号包裹，如 A -->|"师徒"| B；只使用 --> 和 -.-> 两种箭头。
+`
@@ -2,7 +2,8 @@
 
 export {
   getFictionChapterSummaryPrompt,
-  getNonFictionChapterSummaryPrompt
+  getNonFictionChapterSummaryPrompt,
+  getChunkSummaryMergePrompt
 } from './chapterSummary'
 
 export {
@@ -20,10 +21,14 @@ export const getTestConnectionPrompt = () => '请回复"连接成功"'
 
 export {
   getChapterMindMapPrompt,
-  getMindMapArrowPrompt
+  getMindMapArrowPrompt,
+  getMindMapFixPrompt,
+  getChapterMindMapSchema,
+  type ResponseSchema
 } from './mindmap'
 
 export {
   getCharacterRelationshipPrompt,
-  getFictionCharacterRelationshipPrompt
+  getFictionCharacterRelationshipPrompt,
+  getMermaidFixPrompt
 } from './characterRelationship'
\ No newline at end of file
@@ -104,4 +104,64 @@ export interface Arrow {
 `
 
   return userPrompt
-}
\ No newline at end of file
+}
+// 思维导图数据未通过校验时，附加在原提示词之后重新请求
+export const getMindMapFixPrompt = (errors: string[]) => `
+
+**上一次返回的数据未通过校验**：
+${errors.map(error => `- ${error}`).join('\n')}
+
+请重新生成并修正以上问题：nodeData 与 summaries 在同一层级，每个节点都必须有非空的 topic 和唯一的 id，children 必须是节点数组。内容较多时请精简节点，确保 JSON 完整输出、没有被截断。
+`
+
+// 结构化输出使用的 JSON Schema（OpenAPI 子集，Gemini responseSchema 格式）
+export interface ResponseSchema {
+  type: 'OBJECT' | 'ARRAY' | 'STRING' | 'INTEGER' | 'NUMBER' | 'BOOLEAN'
+  properties?: Record<string, ResponseSchema>
+  items?: ResponseSchema
+  required?: string[]
+  propertyOrdering?: string[]
+}
+
+// responseSchema 不支持递归引用，按固定层数展开 NodeObj
+const MIND_MAP_SCHEMA_DEPTH = 5
+
+const getMindMapNodeSchema = (depth: number): ResponseSchema => {
+  const node: ResponseSchema = {
+    type: 'OBJECT',
+    properties: {
+      id: { type: 'STRING' },
+      topic: { type: 'STRING' },
+      tags: { type: 'ARRAY', items: { type: 'STRING' } }
+    },
+    required: ['id', 'topic'],
+    propertyOrdering: ['id', 'topic', 'tags', 'children']
+  }
+  if (depth > 1) {
+    node.properties!.children = { type: 'ARRAY', items: getMindMapNodeSchema(depth - 1) }
+  }
+  return node
+}
+
+export const getChapterMindMapSchema = (): ResponseSchema => ({
+  type: 'OBJECT',
+  properties: {
+    nodeData: getMindMapNodeSchema(MIND_MAP_SCHEMA_DEPTH),
+    summaries: {
+      type: 'ARRAY',
+      items: {
+        type: 'OBJECT',
+        properties: {
+          id: { type: 'STRING' },
+          label: { type: 'STRING' },
+          parent: { type: 'STRING' },
+          start: { type: 'INTEGER' },
+          end: { type: 'INTEGER' }
+        },
+        required: ['id', 'label', 'parent', 'start', 'end']
+      }
+    }
+  },
+  required: ['nodeData'],
+  propertyOrdering: ['nodeData', 'summaries']
+})
\ No newline at end of file
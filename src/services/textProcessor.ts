@@ -0,0 +1,243 @@
+import { SKIP_CHAPTER_KEYWORDS } from './constants'
+import type { ChapterData as BaseChapterData, BookData as BaseBookData } from './bookFormat'
+
+export interface ChapterData extends BaseChapterData {
+  // TXT/MD特有的定位信息：章节在原文中的起止行号，用于阅读器显示
+  startLine?: number
+  endLine?: number
+}
+
+export interface BookData extends BaseBookData {
+  text: string
+  isMarkdown: boolean
+}
+
+interface HeadingCandidate {
+  title: string
+  lineIndex: number
+  level: number
+}
+
+// 英文序数词（one ... ninety-nine），用于匹配 "Chapter Twelve" 这类标题
+const NUMBER_WORDS = '(one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|thirteen|fourteen|fifteen|sixteen|seventeen|eighteen|nineteen|(twenty|thirty|forty|fifty|sixty|seventy|eighty|ninety)(-(one|two|three|four|five|six|seven|eight|nine))?)'
+
+// 纯文本章节标题模式，level 表示层级：卷/部 > 章/回 > 节
+// 合法的罗马数字（I 到 MMMCMXCIX）
+const ROMAN_NUMERAL = 'M{0,3}(?:CM|CD|D?C{0,3})(?:XC|XL|L?X{0,3})(?:IX|IV|V?I{0,3})'
+
+// isolated：容易和正文混淆的模式，要求标题前后都是空行
+const TEXT_HEADING_PATTERNS: { pattern: RegExp, level: number, isolated?: boolean }[] = [
+  { pattern: new RegExp(`^(part|book|volume)\\s+(\\d+|[ivxlcdm]+|${NUMBER_WORDS})\\b.*$`, 'i'), level: 1 },
+  { pattern: /^第[零〇一二两三四五六七八九十百千万\d]+[卷部篇](\s.*|[:：].*)?$/, level: 1 },
+  { pattern: new RegExp(`^chapter\\s+(\\d+|[ivxlcdm]+|${NUMBER_WORDS})\\b.*$`, 'i'), level: 2 },
+  { pattern: /^第[零〇一二两三四五六七八九十百千万\d]+[章回](\s.*|[:：].*)?$/, level: 2 },
+  // 单独一行的罗马数字，如 "XII"、"XII. The Return" 或 "I."；单个字母必须带句点，
+  // 标题部分不能有句子标点，避免 "I nodded." 这样的第一人称正文被当作标题
+  { pattern: new RegExp(`^(?:(?=[IVXLCDM]{2})${ROMAN_NUMERAL}\\.?(?:\\s+[^.,;:!?"“”…]+)?|[IVXLCDM]\\.)$`), level: 2, isolated: true },
+  { pattern: /^(prologue|epilogue|introduction|序章|序言|楔子|引子|尾声|后记)$/i, level: 2 },
+  { pattern: /^(section\s+\d+\b.*|第[零〇一二两三四五六七八九十百千万\d]+节(\s.*|[:：].*)?)$/i, level: 3 }
+]
+
+const MAX_HEADING_LENGTH = 50
+// 没有检测到任何标题时，按此长度（字符数）在段落边界处切分
+const FALLBACK_CHUNK_SIZE = 8000
+
+export class TextProcessor {
+  async parseText(file: File): Promise<BookData> {
+    try {
+      const arrayBuffer = await file.arrayBuffer()
+      const text = decodeText(new Uint8Array(arrayBuffer))
+        .replace(/\r\n?/g, '\n')
+      const isMarkdown = /\.(md|markdown)$/i.test(file.name)
+
+      // Markdown 文件优先使用 front matter 或唯一的一级标题作为书名
+      let title = ''
+      let author = ''
+      if (isMarkdown) {
+        const frontMatter = text.match(/^---\n([\s\S]*?)\n---/)
+        if (frontMatter) {
+          title = frontMatter[1].match(/^title:\s*["']?(.+?)["']?\s*$/m)?.[1] || ''
+          author = frontMatter[1].match(/^author:\s*["']?(.+?)["']?\s*$/m)?.[1] || ''
+        }
+        const h1Matches = [...text.replace(/^(```|~~~)[\s\S]*?^\1/gm, '').matchAll(/^#\s+(.+)$/gm)]
+        if (!title && h1Matches.length === 1) {
+          title = h1Matches[0][1].trim()
+        }
+      }
+
+      return {
+        title: title || file.name.replace(/\.(txt|md|markdown)$/i, '') || '未知标题',
+        author: author || '未知作者',
+        text,
+        isMarkdown
+      }
+    } catch (error) {
+      throw new Error(`解析文本文件失败: ${error instanceof Error ? error.message : '未知错误'}`)
+    }
+  }
+
+  async extractChapters(bookData: BookData, skipNonEssentialChapters: boolean = true, maxSubChapterDepth: number = 0): Promise<ChapterData[]> {
+    try {
+      const lines = bookData.text.split('\n')
+      const headings = bookData.isMarkdown
+        ? this.detectMarkdownHeadings(lines)
+        : this.detectTextHeadings(lines)
+      console.log(`🔍 [DEBUG] 检测到 ${headings.length} 个标题候选`)
+
+      const chapterHeadings = this.selectChapterHeadings(headings, maxSubChapterDepth)
+      const chapterInfos = chapterHeadings.length > 0
+        ? chapterHeadings.map((heading, index) => ({
+          title: heading.title,
+          startLine: heading.lineIndex,
+          endLine: index + 1 < chapterHeadings.length ? chapterHeadings[index + 1].lineIndex : lines.length,
+          depth: heading.level
+        }))
+        : this.splitIntoChunks(lines)
+
+      // 第一个标题之前的内容（如前言、版权信息）单独作为一章
+      if (chapterInfos.length > 0 && chapterInfos[0].startLine > 0) {
+        chapterInfos.unshift({ title: '开篇', startLine: 0, endLine: chapterInfos[0].startLine, depth: 0 })
+      }
+      console.log(`📚 [DEBUG] 找到 ${chapterInfos.length} 个章节信息`, chapterInfos)
+
+      const chapters: ChapterData[] = []
+      for (let i = 0; i < chapterInfos.length; i++) {
+        const chapterInfo = chapterInfos[i]
+
+        if (skipNonEssentialChapters && this.shouldSkipChapter(chapterInfo.title)) {
+          console.log(`⏭️ [DEBUG] 跳过无关键内容章节: "${chapterInfo.title}"`)
+          continue
+        }
+
+        const chapterContent = this.formatContent(lines.slice(chapterInfo.startLine, chapterInfo.endLine), bookData.isMarkdown)
+        if (chapterContent.trim().length > 100) {
+          chapters.push({
+            id: `${i}-${chapterInfo.title}`, // 使用索引和标题组合作为ID，确保唯一性
+            title: chapterInfo.title,
+            content: chapterContent,
+            startLine: chapterInfo.startLine,
+            endLine: chapterInfo.endLine,
+            depth: chapterInfo.depth
+          })
+        }
+      }
+
+      console.log(`📊 [DEBUG] 最终提取到 ${chapters.length} 个章节`)
+
+      if (chapters.length === 0) {
+        throw new Error('未找到有效的章节内容')
+      }
+
+      return chapters
+    } catch (error) {
+      console.error(`❌ [DEBUG] 提取章节失败:`, error)
+      throw new Error(`提取章节失败: ${error instanceof Error ? error.message : '未知错误'}`)
+    }
+  }
+
+  // Markdown ATX 标题（跳过代码块内的 # 行）
+  private detectMarkdownHeadings(lines: string[]): HeadingCandidate[] {
+    const headings: HeadingCandidate[] = []
+    let inCodeBlock = false
+
+    lines.forEach((line, lineIndex) => {
+      if (/^\s*(```|~~~)/.test(line)) {
+        inCodeBlock = !inCodeBlock
+        return
+      }
+      if (inCodeBlock) return
+
+      const match = line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/)
+      if (match) {
+        headings.push({ title: match[2].trim(), lineIndex, level: match[1].length })
+      }
+    })
+
+    return headings
+  }
+
+  // 纯文本标题：Chapter N、第N章、罗马数字等，只考虑较短的独立行
+  private detectTextHeadings(lines: string[]): HeadingCandidate[] {
+    const headings: HeadingCandidate[] = []
+
+    lines.forEach((rawLine, lineIndex) => {
+      const line = rawLine.trim()
+      if (!line || line.length > MAX_HEADING_LENGTH) return
+
+      const isIsolated = !lines[lineIndex - 1]?.trim() && !lines[lineIndex + 1]?.trim()
+      for (const { pattern, level, isolated } of TEXT_HEADING_PATTERNS) {
+        if (isolated && !isIsolated) continue
+        if (pattern.test(line)) {
+          headings.push({ title: line, lineIndex, level })
+          break
+        }
+      }
+    })
+
+    return headings
+  }
+
+  // 以至少出现两次的最高层级作为章节层级，并根据 maxSubChapterDepth 纳入更深的子章节
+  private selectChapterHeadings(headings: HeadingCandidate[], maxSubChapterDepth: number): HeadingCandidate[] {
+    const levelCounts = new Map<number, number>()
+    headings.forEach(heading => levelCounts.set(heading.level, (levelCounts.get(heading.level) || 0) + 1))
+
+    const levels = [...levelCounts.keys()].sort((a, b) => a - b)
+    const chapterLevel = levels.find(level => (levelCounts.get(level) || 0) >= 2) ?? levels[0]
+    if (chapterLevel === undefined) return []
+
+    // 比章节层级更高的标题（如只出现一次的"Part One"）也作为分界，避免混入上一章
+    const maxLevel = chapterLevel + maxSubChapterDepth
+    return headings
+      .filter(heading => heading.level <= maxLevel)
+      .map(heading => ({ ...heading, level: Math.max(0, heading.level - chapterLevel) }))
+  }
+
+  // 没有任何标题时，按固定长度在空行处切分
+  private splitIntoChunks(lines: string[]): { title: string, startLine: number, endLine: number, depth: number }[] {
+    console.log('🔁 [DEBUG] 未检测到章节标题，按长度切分文本')
+    const chunks: { title: string, startLine: number, endLine: number, depth: number }[] = []
+    let startLine = 0
+    let size = 0
+
+    lines.forEach((line, lineIndex) => {
+      size += line.length + 1
+      const isLastLine = lineIndex === lines.length - 1
+      if ((size >= FALLBACK_CHUNK_SIZE && !line.trim()) || isLastLine) {
+        chunks.push({ title: `章节 ${chunks.length + 1}`, startLine, endLine: lineIndex + 1, depth: 0 })
+        startLine = lineIndex + 1
+        size = 0
+      }
+    })
+
+    return chunks
+  }
+
+  private formatContent(lines: string[], isMarkdown: boolean): string {
+    const text = isMarkdown
+      ? lines.join('\n')
+      : lines.map(line => line.trim()).join('\n')
+    return text.replace(/\n{3,}/g, '\n\n').trim()
+  }
+
+  private shouldSkipChapter(title: string): boolean {
+    if (!title) return false
+
+    return SKIP_CHAPTER_KEYWORDS.some(keyword =>
+      title.toLowerCase().includes(keyword.toLowerCase())
+    )
+  }
+}
+
+// 优先按 UTF-8 解码，失败时回退到 GB18030（常见于中文 TXT 电子书）
+function decodeText(bytes: Uint8Array): string {
+  if (bytes[0] === 0xFF && bytes[1] === 0xFE) return new TextDecoder('utf-16le').decode(bytes)
+  if (bytes[0] === 0xFE && bytes[1] === 0xFF) return new TextDecoder('utf-16be').decode(bytes)
+
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes)
+  } catch {
+    console.log('🔤 [DEBUG] UTF-8 解码失败，尝试 GB18030')
+    return new TextDecoder('gb18030').decode(bytes)
+  }
+}
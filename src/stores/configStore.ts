@@ -4,11 +4,18 @@ import type { SupportedLanguage } from '../services/prompts/utils'
 
 // AI配置接口
 interface AIConfig {
-  provider: 'gemini' | 'openai' | 'ollama' | '302.ai'
+  provider: 'gemini' | 'openai' | 'ollama' | '302.ai' | 'anthropic' | 'azure'
   apiKey: string
   apiUrl: string
   model: string
   temperature: number
+  thinkingBudget?: number
+  apiVersion?: string
+  contextWindow?: number
+  inputPrice?: number
+  outputPrice?: number
+  maxRetries?: number
+  concurrency?: number
 }
 
 // 处理选项接口
@@ -20,17 +27,26 @@ interface ProcessingOptions {
   maxSubChapterDepth: number
   outputLanguage: SupportedLanguage
   forceUseSpine: boolean
+  removeHeadersFooters: boolean
+  includeNotes: boolean
 }
 
 // 配置store状态接口
 interface ConfigState {
   // AI配置
   aiConfig: AIConfig
-  setAiProvider: (provider: 'gemini' | 'openai' | 'ollama' | '302.ai') => void
+  setAiProvider: (provider: 'gemini' | 'openai' | 'ollama' | '302.ai' | 'anthropic' | 'azure') => void
   setApiKey: (apiKey: string) => void
   setApiUrl: (apiUrl: string) => void
   setModel: (model: string) => void
   setTemperature: (temperature: number) => void
+  setThinkingBudget: (thinkingBudget: number) => void
+  setApiVersion: (apiVersion: string) => void
+  setContextWindow: (contextWindow: number) => void
+  setInputPrice: (inputPrice: number) => void
+  setOutputPrice: (outputPrice: number) => void
+  setMaxRetries: (maxRetries: number) => void
+  setConcurrency: (concurrency: number) => void
 
   // 处理选项
   processingOptions: ProcessingOptions
@@ -41,6 +57,8 @@ interface ConfigState {
   setMaxSubChapterDepth: (depth: number) => void
   setOutputLanguage: (language: SupportedLanguage) => void
   setForceUseSpine: (enabled: boolean) => void
+  setRemoveHeadersFooters: (enabled: boolean) => void
+  setIncludeNotes: (enabled: boolean) => void
 
   // 统一导入配置
   importConfig: (config: { aiConfig?: Partial<AIConfig>, processingOptions?: Partial<ProcessingOptions> }) => void
@@ -62,7 +80,9 @@ const defaultProcessingOptions: ProcessingOptions = {
   skipNonEssentialChapters: true,
   maxSubChapterDepth: 0,
   outputLanguage: 'en',
-  forceUseSpine: false
+  forceUseSpine: false,
+  removeHeadersFooters: true,
+  includeNotes: true
 }
 
 // 创建配置store
@@ -86,6 +106,27 @@ export const useConfigStore = create<ConfigState>()(
       setTemperature: (temperature) => set((state) => ({
         aiConfig: { ...state.aiConfig, temperature }
       })),
+      setThinkingBudget: (thinkingBudget) => set((state) => ({
+        aiConfig: { ...state.aiConfig, thinkingBudget }
+      })),
+      setApiVersion: (apiVersion) => set((state) => ({
+        aiConfig: { ...state.aiConfig, apiVersion }
+      })),
+      setContextWindow: (contextWindow) => set((state) => ({
+        aiConfig: { ...state.aiConfig, contextWindow }
+      })),
+      setInputPrice: (inputPrice) => set((state) => ({
+        aiConfig: { ...state.aiConfig, inputPrice }
+      })),
+      setOutputPrice: (outputPrice) => set((state) => ({
+        aiConfig: { ...state.aiConfig, outputPrice }
+      })),
+      setMaxRetries: (maxRetries) => set((state) => ({
+        aiConfig: { ...state.aiConfig, maxRetries }
+      })),
+      setConcurrency: (concurrency) => set((state) => ({
+        aiConfig: { ...state.aiConfig, concurrency }
+      })),
 
       // 处理选项
       processingOptions: defaultProcessingOptions,
@@ -108,6 +149,12 @@ export const useConfigStore = create<ConfigState>()(
       setForceUseSpine: (forceUseSpine) => set((state) => ({
         processingOptions: { ...state.processingOptions, forceUseSpine }
       })),
+      setRemoveHeadersFooters: (removeHeadersFooters) => set((state) => ({
+        processingOptions: { ...state.processingOptions, removeHeadersFooters }
+      })),
+      setIncludeNotes: (includeNotes) => set((state) => ({
+        processingOptions: { ...state.processingOptions, includeNotes }
+      })),
 
       // 统一导入配置
       importConfig: (config) => set((state) => ({
@@ -120,7 +167,16 @@ export const useConfigStore = create<ConfigState>()(
       partialize: (state) => ({
         aiConfig: state.aiConfig,
         processingOptions: state.processingOptions
-      })
+      }),
+      // 默认的浅合并会用旧版本保存的对象整体覆盖默认值，新增的选项会变成 undefined，这里逐个对象合并
+      merge: (persistedState, currentState) => {
+        const persisted = (persistedState || {}) as Partial<Pick<ConfigState, 'aiConfig' | 'processingOptions'>>
+        return {
+          ...currentState,
+          aiConfig: { ...defaultAIConfig, ...persisted.aiConfig },
+          processingOptions: { ...defaultProcessingOptions, ...persisted.processingOptions }
+        }
+      }
     }
   )
 )
@@ -131,7 +187,7 @@ const getDefaultModelFromStorage = (): AIConfig | null => {
 
   try {
     const modelStore = JSON.parse(localStorage.getItem('ebook-models') || '{"state":{"models":[]}}')
-    const defaultModel = modelStore.state.models.find((m: { isDefault: boolean; provider: string; apiKey: string; apiUrl: string; model: string; temperature: number }) => m.isDefault)
+    const defaultModel = modelStore.state.models.find((m: { isDefault: boolean; provider: string; apiKey: string; apiUrl: string; model: string; temperature: number; thinkingBudget?: number; apiVersion?: string; contextWindow?: number; inputPrice?: number; outputPrice?: number; maxRetries?: number; concurrency?: number }) => m.isDefault)
 
     if (defaultModel) {
       return {
@@ -139,7 +195,14 @@ const getDefaultModelFromStorage = (): AIConfig | null => {
         apiKey: defaultModel.apiKey,
         apiUrl: defaultModel.apiUrl,
         model: defaultModel.model,
-        temperature: defaultModel.temperature
+        temperature: defaultModel.temperature,
+        thinkingBudget: defaultModel.thinkingBudget,
+        apiVersion: defaultModel.apiVersion,
+        contextWindow: defaultModel.contextWindow,
+        inputPrice: defaultModel.inputPrice,
+        outputPrice: defaultModel.outputPrice,
+        maxRetries: defaultModel.maxRetries,
+        concurrency: defaultModel.concurrency
       }
     }
   } catch (error) {
@@ -1,14 +1,22 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
+import type { AITaskType } from '../services/aiService'
 
 export interface AIModel {
   id: string
   name: string
-  provider: 'gemini' | 'openai' | 'ollama' | '302.ai'
+  provider: 'gemini' | 'openai' | 'ollama' | '302.ai' | 'anthropic' | 'azure'
   apiKey: string
   apiUrl: string
-  model: string
+  model: string // Azure 为部署名称
   temperature: number
+  thinkingBudget?: number // Anthropic extended thinking 的 token 预算，0 或未设置表示不开启
+  apiVersion?: string // Azure OpenAI 的 api-version
+  contextWindow?: number // 上下文窗口（token），0 或未设置时使用默认值
+  inputPrice?: number // 输入单价（美元 / 百万 tokens），用于处理前的费用预估
+  outputPrice?: number // 输出单价（美元 / 百万 tokens）
+  maxRetries?: number // 请求失败时的最大重试次数，未设置时使用默认值
+  concurrency?: number // 同时处理的章节组数，受服务商的速率限制约束
   isDefault: boolean
 }
 
@@ -19,6 +27,14 @@ interface ModelState {
   deleteModel: (id: string) => void
   setDefaultModel: (id: string) => void
   getDefaultModel: () => AIModel | undefined
+  // 按任务类型指定的模型ID，未指定的任务使用当前选择的模型
+  taskModels: Partial<Record<AITaskType, string>>
+  setTaskModel: (task: AITaskType, modelId: string | null) => void
+  getTaskModel: (task: AITaskType) => AIModel | undefined
+  // 当前模型重试后仍不可用时，按顺序切换的备用模型ID
+  fallbackModelIds: string[]
+  setFallbackModelIds: (ids: string[]) => void
+  getFallbackModels: () => AIModel[]
 }
 
 export const useModelStore = create<ModelState>()(
@@ -48,8 +64,17 @@ export const useModelStore = create<ModelState>()(
         if (modelToDelete?.isDefault && remainingModels.length > 0) {
           remainingModels[0].isDefault = true
         }
+
+        // Tasks routed to the deleted model fall back to the selected model
+        const taskModels = Object.fromEntries(
+          Object.entries(state.taskModels).filter(([, modelId]) => modelId !== id)
+        )
         
-        return { models: remainingModels }
+        return {
+          models: remainingModels,
+          taskModels,
+          fallbackModelIds: state.fallbackModelIds.filter(modelId => modelId !== id)
+        }
       }),
       
       setDefaultModel: (id) => set((state) => ({
@@ -62,12 +87,43 @@ export const useModelStore = create<ModelState>()(
       getDefaultModel: () => {
         const state = get()
         return state.models.find((m) => m.isDefault)
+      },
+
+      taskModels: {},
+
+      setTaskModel: (task, modelId) => set((state) => {
+        const taskModels = { ...state.taskModels }
+        if (modelId) {
+          taskModels[task] = modelId
+        } else {
+          delete taskModels[task]
+        }
+        return { taskModels }
+      }),
+
+      getTaskModel: (task) => {
+        const state = get()
+        const modelId = state.taskModels[task]
+        return modelId ? state.models.find((m) => m.id === modelId) : undefined
+      },
+
+      fallbackModelIds: [],
+
+      setFallbackModelIds: (ids) => set({ fallbackModelIds: ids }),
+
+      getFallbackModels: () => {
+        const state = get()
+        return state.fallbackModelIds
+          .map((id) => state.models.find((m) => m.id === id))
+          .filter((m): m is AIModel => !!m)
       }
     }),
     {
       name: 'ebook-models',
       partialize: (state) => ({
-        models: state.models
+        models: state.models,
+        taskModels: state.taskModels,
+        fallbackModelIds: state.fallbackModelIds
       })
     }
   )
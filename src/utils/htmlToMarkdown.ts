@@ -1,6 +1,7 @@
 /**
  * Simple HTML to Markdown converter
- * Converts basic HTML tags to Markdown syntax
+ * Converts basic HTML tags to Markdown syntax, including GFM tables,
+ * nested/numbered lists and footnotes
  */
 export function htmlToMarkdown(html: string): string {
     if (!html) return ''
@@ -10,6 +11,47 @@ export function htmlToMarkdown(html: string): string {
     const doc = parser.parseFromString(html, 'text/html')
     const body = doc.body
 
+    // Footnote definitions: epub:type="footnote"/"endnote" (or ARIA roles) and
+    // <aside> elements that are the target of a link in the same document
+    const linkedIds = new Set<string>()
+    body.querySelectorAll('a[href^="#"]').forEach(link => {
+        linkedIds.add(safeDecodeURIComponent(link.getAttribute('href')!.slice(1)))
+    })
+    const footnotes = new Set<Element>()
+    const footnotesById = new Map<string, Element>()
+    body.querySelectorAll('*').forEach(element => {
+        const id = element.getAttribute('id')
+        const isAsideNote = element.tagName.toLowerCase() === 'aside' && !!id && linkedIds.has(id)
+        if (!isFootnoteType(element) && !isAsideNote) return
+        // Nested elements belong to the enclosing note
+        if (Array.from(footnotes).some(note => note.contains(element))) return
+        footnotes.add(element)
+        if (id) footnotesById.set(id, element)
+        // The link target is sometimes an inner <p> or <span> of the note
+        element.querySelectorAll('[id]').forEach(child => {
+            if (!footnotesById.has(child.id)) footnotesById.set(child.id, element)
+        })
+    })
+
+    // Footnote labels are numbered in order of first reference
+    const footnoteLabels = new Map<Element, string>()
+    const getFootnoteLabel = (note: Element) => {
+        let label = footnoteLabels.get(note)
+        if (!label) {
+            label = String(footnoteLabels.size + 1)
+            footnoteLabels.set(note, label)
+        }
+        return label
+    }
+
+    function processChildren(element: Element): string {
+        let content = ''
+        element.childNodes.forEach(child => {
+            content += processNode(child)
+        })
+        return content
+    }
+
     // Helper function to process nodes recursively
     function processNode(node: Node): string {
         if (node.nodeType === Node.TEXT_NODE) {
@@ -22,12 +64,24 @@ export function htmlToMarkdown(html: string): string {
 
         const element = node as Element
         const tagName = element.tagName.toLowerCase()
-        let content = ''
 
-        // Process child nodes
-        element.childNodes.forEach(child => {
-            content += processNode(child)
-        })
+        // Footnote definitions are collected and emitted at the end
+        if (footnotes.has(element)) {
+            return ''
+        }
+
+        // Lists and tables need the structure of their children rather than the flattened text
+        switch (tagName) {
+            case 'ul':
+            case 'ol': {
+                const list = processList(element)
+                return element.parentElement?.closest('li') ? list : `\n${list}\n`
+            }
+            case 'table':
+                return `\n${processTable(element)}\n\n`
+        }
+
+        const content = processChildren(element)
 
         // Handle specific tags
         switch (tagName) {
@@ -57,29 +111,29 @@ export function htmlToMarkdown(html: string): string {
             case 'em':
             case 'i':
                 return content.trim() ? ` *${content.trim()}* ` : ''
-            case 'ul':
-                return `\n${content}\n`
-            case 'ol':
-                return `\n${content}\n`
-            case 'li':
-                // For list items, we need to handle indentation if nested (simplified here)
-                // Check parent to decide if it's ordered or unordered (simplified)
-                const parentTag = element.parentElement?.tagName.toLowerCase()
-                const prefix = parentTag === 'ol' ? '1. ' : '- '
-                return `${prefix}${content.trim()}\n`
             case 'blockquote':
                 return `\n> ${content.trim().replace(/\n/g, '\n> ')}\n\n`
             case 'code':
                 return ` \`${content}\` `
             case 'pre':
                 return `\n\`\`\`\n${content}\n\`\`\`\n\n`
-            case 'a':
+            case 'sup': {
+                // Unlinked superscripts (bare note markers, exponents) would otherwise be glued to the preceding word
+                const text = content.trim()
+                if (!text || element.querySelector('a')) return content
+                return `^${text}`
+            }
+            case 'a': {
+                const footnoteRef = getFootnoteReference(element)
+                if (footnoteRef) return footnoteRef
                 const href = element.getAttribute('href')
                 return href ? `[${content}](${href})` : content
-            case 'img':
+            }
+            case 'img': {
                 const src = element.getAttribute('src')
                 const alt = element.getAttribute('alt') || ''
                 return src ? `![${alt}](${src})` : ''
+            }
             case 'script':
             case 'style':
             case 'meta':
@@ -90,11 +144,139 @@ export function htmlToMarkdown(html: string): string {
         }
     }
 
+    // Footnote references: links to a collected footnote, or explicit noterefs
+    // (which may point to a separate notes file and are resolved by the caller)
+    function getFootnoteReference(element: Element): string | null {
+        const href = element.getAttribute('href') || ''
+        const hashIndex = href.indexOf('#')
+        const targetId = hashIndex >= 0 ? safeDecodeURIComponent(href.slice(hashIndex + 1)) : ''
+
+        const note = hashIndex === 0 ? footnotesById.get(targetId) : undefined
+        if (note) {
+            return `[^${getFootnoteLabel(note)}]`
+        }
+
+        const type = `${element.getAttribute('epub:type') || ''} ${element.getAttribute('role') || ''}`
+        if (/\bnoteref\b/.test(type)) {
+            const label = (element.textContent || '').replace(/[^\w-]/g, '') || targetId
+            return label ? `[^${label}]` : ''
+        }
+
+        return null
+    }
+
+    function processList(list: Element): string {
+        const ordered = list.tagName.toLowerCase() === 'ol'
+        let number = parseInt(list.getAttribute('start') || '1', 10)
+        if (isNaN(number)) number = 1
+        let markdown = ''
+
+        Array.from(list.children).forEach(child => {
+            const childTag = child.tagName.toLowerCase()
+            if (childTag === 'ul' || childTag === 'ol') {
+                // Invalid but common: a nested list directly inside a list
+                markdown += indent(processList(child), ordered ? '   ' : '  ')
+                return
+            }
+            if (childTag !== 'li' || footnotes.has(child)) return
+
+            const value = parseInt(child.getAttribute('value') || '', 10)
+            if (!isNaN(value)) number = value
+            const prefix = ordered ? `${number}. ` : '- '
+            number++
+
+            // Nested lists are indented under the item text
+            let text = ''
+            let nested = ''
+            child.childNodes.forEach(itemChild => {
+                const itemTag = itemChild.nodeType === Node.ELEMENT_NODE ? (itemChild as Element).tagName.toLowerCase() : ''
+                if (itemTag === 'ul' || itemTag === 'ol') {
+                    nested += processList(itemChild as Element)
+                } else {
+                    text += processNode(itemChild)
+                }
+            })
+
+            const itemText = text.trim().replace(/\n{2,}/g, '\n').replace(/\n/g, `\n${' '.repeat(prefix.length)}`)
+            markdown += `${prefix}${itemText}\n`
+            if (nested) {
+                markdown += indent(nested, ' '.repeat(prefix.length))
+            }
+        })
+
+        return markdown
+    }
+
+    function processTable(table: Element): string {
+        const rows = Array.from(table.querySelectorAll('tr'))
+            .filter(row => row.closest('table') === table)
+        if (rows.length === 0) return ''
+
+        const cellRows = rows.map(row => {
+            const cells: string[] = []
+            Array.from(row.children).forEach(cell => {
+                const cellTag = cell.tagName.toLowerCase()
+                if (cellTag !== 'td' && cellTag !== 'th') return
+                const text = processChildren(cell)
+                    .replace(/\s*\n\s*/g, ' ')
+                    .replace(/\|/g, '\\|')
+                    .trim()
+                cells.push(text)
+                // Spanned columns become empty cells so columns stay aligned
+                const colspan = parseInt(cell.getAttribute('colspan') || '1', 10)
+                for (let i = 1; i < colspan; i++) cells.push('')
+            })
+            return cells
+        })
+
+        const columnCount = Math.max(...cellRows.map(cells => cells.length))
+        if (columnCount === 0) return ''
+
+        const formatRow = (cells: string[]) => {
+            const padded = [...cells, ...new Array(columnCount - cells.length).fill('')]
+            return `| ${padded.join(' | ')} |`
+        }
+
+        // GFM tables require a header row; use the first row
+        const [header, ...bodyRows] = cellRows
+        return [
+            formatRow(header),
+            formatRow(new Array(columnCount).fill('---')),
+            ...bodyRows.map(formatRow)
+        ].join('\n')
+    }
+
     // Initial cleanup of the DOM if needed
     // (The recursive function handles script/style removal by ignoring them)
 
     let markdown = processNode(body)
 
+    // Footnote definitions, in reference order followed by unreferenced notes
+    footnotes.forEach(note => getFootnoteLabel(note))
+    const definitions: string[] = []
+    footnoteLabels.forEach((label, note) => {
+        const text = processFootnote(note)
+        if (text) definitions.push(`[^${label}]: ${text}`)
+    })
+    if (definitions.length > 0) {
+        markdown += `\n\n${definitions.join('\n')}\n`
+    }
+
+    function processFootnote(note: Element): string {
+        const clone = note.cloneNode(true) as Element
+        // Drop back-links to the reference, e.g. <a href="#ref1">1</a> or ↩
+        clone.querySelectorAll('a').forEach(link => {
+            const type = `${link.getAttribute('epub:type') || ''} ${link.getAttribute('role') || ''}`
+            if (/backlink/.test(type) || /^[\s↩^\d[\]().]*$/.test(link.textContent || '')) {
+                link.remove()
+            }
+        })
+        return processChildren(clone)
+            .replace(/\s*\n\s*/g, ' ')
+            .replace(/\s{2,}/g, ' ')
+            .trim()
+    }
+
     // Post-processing to clean up excessive newlines
     markdown = markdown
         .replace(/\n{3,}/g, '\n\n') // Max 2 newlines
@@ -102,3 +284,27 @@ export function htmlToMarkdown(html: string): string {
 
     return markdown
 }
+
+function isFootnoteType(element: Element): boolean {
+    const type = `${element.getAttribute('epub:type') || ''} ${element.getAttribute('role') || ''}`
+    return /(^|\s)(footnote|endnote|rearnote|doc-footnote|doc-endnote)(\s|$)/.test(type)
+}
+
+function indent(text: string, prefix: string): string {
+    return text
+        .split('\n')
+        .map(line => (line ? `${prefix}${line}` : line))
+        .join('\n')
+}
+
+/**
+ * decodeURIComponent that falls back to the raw value for malformed escapes
+ * (e.g. "%E0%A4%A") instead of throwing URIError
+ */
+export function safeDecodeURIComponent(value: string): string {
+    try {
+        return decodeURIComponent(value)
+    } catch {
+        return value
+    }
+}
@@ -0,0 +1,97 @@
+// 节点 ID：字母、数字、下划线和中文
+const NODE_ID = '[A-Za-z0-9_\\u4e00-\\u9fff]+'
+// 方括号节点 A[文字]，排除 A[(..)]、A[[..]]、A[/..] 等特殊形状
+const SQUARE_NODE_PATTERN = new RegExp(`(${NODE_ID})\\[(?![[(/\\\\"])([^\\]\\n]*?)\\]`, 'g')
+// 圆角节点 A(文字)，文字中允许一层括号，排除 A((..))、A([..]) 等特殊形状
+const ROUND_NODE_PATTERN = new RegExp(`(${NODE_ID})\\((?![([")])((?:[^()\\n]|\\([^()\\n]*\\))*?)\\)`, 'g')
+// 菱形节点 A{文字}
+const RHOMBUS_NODE_PATTERN = new RegExp(`(${NODE_ID})\\{(?![{"])([^}\\n]*?)\\}`, 'g')
+// 连线文字 -->|文字|
+const EDGE_LABEL_PATTERN = /\|(?!")([^|\n]+)\|/g
+// 需要加引号的字符（括号、引号、分号等会被当作语法）
+const SPECIAL_CHARS = /[()（）[\]{}<>;:|"'#&]/
+
+const quoteLabel = (label: string) => `"${label.trim().replace(/"/g, '#quot;')}"`
+
+/**
+ * 从 AI 返回的内容中提取 mermaid 代码：优先取 ```mermaid 代码块，其次取普通代码块
+ */
+export function extractMermaidCode(content: string): string {
+  const mermaidMatch = content.match(/```mermaid\s*([\s\S]*?)```/)
+  if (mermaidMatch && mermaidMatch[1]) {
+    return mermaidMatch[1].trim()
+  }
+  const codeMatch = content.match(/```\w*\s*([\s\S]*?)```/)
+  if (codeMatch && codeMatch[1] && /^\s*(graph|flowchart)\b/.test(codeMatch[1])) {
+    return codeMatch[1].trim()
+  }
+  return content.trim()
+}
+
+/**
+ * 自动修复人物关系图中常见的语法问题：
+ * 去掉图表声明前的说明文字、统一全角箭头，给包含特殊字符的节点文字和连线文字加引号
+ */
+export function fixMermaidSyntax(code: string): string {
+  let fixed = code.replace(/\r\n/g, '\n').trim()
+
+  // 去掉 graph / flowchart 声明之前的内容（如多余的 "mermaid" 或说明文字）
+  const header = fixed.search(/^\s*(graph|flowchart)\b/m)
+  if (header > 0) {
+    fixed = fixed.slice(header)
+  }
+
+  return fixed
+    .split('\n')
+    .map(line => {
+      // 注释、样式和子图声明保持不变
+      if (/^\s*(%%|style\b|classDef\b|class\b|linkStyle\b|click\b|subgraph\b|end\b|graph\b|flowchart\b)/.test(line)) {
+        return line
+      }
+      return line
+        .replace(/[—－]{2}>/g, '-->')
+        .replace(/→/g, '-->')
+        .replace(SQUARE_NODE_PATTERN, (match, id: string, label: string) =>
+          SPECIAL_CHARS.test(label) ? `${id}[${quoteLabel(label)}]` : match)
+        .replace(ROUND_NODE_PATTERN, (match, id: string, label: string) =>
+          SPECIAL_CHARS.test(label) ? `${id}(${quoteLabel(label)})` : match)
+        .replace(RHOMBUS_NODE_PATTERN, (match, id: string, label: string) =>
+          SPECIAL_CHARS.test(label) ? `${id}{${quoteLabel(label)}}` : match)
+        .replace(EDGE_LABEL_PATTERN, (match, label: string) =>
+          SPECIAL_CHARS.test(label) ? `|${quoteLabel(label)}|` : match)
+    })
+    .join('\n')
+}
+
+/**
+ * 用 mermaid 的解析器检查语法，返回错误信息，语法正确时返回 null
+ */
+export async function getMermaidParseError(code: string): Promise<string | null> {
+  const { default: mermaid } = await import('mermaid')
+  try {
+    await mermaid.parse(code)
+    return null
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error)
+  }
+}
+
+/**
+ * 校验 mermaid 代码，解析失败时尝试自动修复后再校验
+ */
+export async function validateMermaid(code: string): Promise<{ code: string; error: string | null }> {
+  const error = await getMermaidParseError(code)
+  if (!error) {
+    return { code, error: null }
+  }
+
+  const fixed = fixMermaidSyntax(code)
+  if (fixed !== code) {
+    const fixedError = await getMermaidParseError(fixed)
+    if (!fixedError) {
+      console.log('🩹 [DEBUG] 已自动修复 Mermaid 语法错误:', error)
+      return { code: fixed, error: null }
+    }
+  }
+  return { code, error }
+}
@@ -0,0 +1,323 @@
+import type { MindElixirData } from 'mind-elixir'
+
+type MindMapNode = MindElixirData['nodeData']
+
+export interface MindMapValidationResult {
+  /** 校验通过（含自动修复）后的数据，存在无法修复的问题时为 null */
+  data: MindElixirData | null
+  /** 无法自动修复的问题，需要重新请求 */
+  errors: string[]
+  /** 已自动修复的问题 */
+  repairs: string[]
+}
+
+// 节点嵌套超过该深度视为异常数据
+const MAX_NODE_DEPTH = 50
+// 截断修复时最多尝试回退的位置数
+const MAX_CUT_ATTEMPTS = 50
+
+/**
+ * 宽松地修复 AI 返回的 JSON 文本：
+ * 去掉代码块和 JSON 前后的说明文字、尾随逗号，转义字符串中的换行，
+ * 输出被截断时回退到最近的完整元素并补全括号
+ */
+export function repairJson(text: string): string {
+  let source = text.trim()
+  const fence = source.match(/```(?:json)?\s*([\s\S]*?)(?:```|$)/)
+  if (fence) {
+    source = fence[1]
+  }
+  const start = source.search(/[{[]/)
+  if (start < 0) {
+    return source
+  }
+  source = source.slice(start)
+
+  let output = ''
+  const stack: string[] = []
+  // 可以安全截断的位置（逗号前、括号后）及当时未闭合的括号
+  const cutPoints: Array<{ length: number; stack: string[] }> = []
+  let inString = false
+  let escaped = false
+
+  for (const char of source) {
+    if (inString) {
+      if (escaped) {
+        escaped = false
+      } else if (char === '\\') {
+        escaped = true
+      } else if (char === '"') {
+        inString = false
+      } else if (char === '\n') {
+        output += '\\n'
+        continue
+      } else if (char === '\r') {
+        continue
+      } else if (char === '\t') {
+        output += '\\t'
+        continue
+      }
+      output += char
+      continue
+    }
+
+    if (char === '"') {
+      inString = true
+      output += char
+    } else if (char === '{' || char === '[') {
+      stack.push(char === '{' ? '}' : ']')
+      output += char
+      cutPoints.push({ length: output.length, stack: [...stack] })
+    } else if (char === '}' || char === ']') {
+      output = output.replace(/,\s*$/, '') + (stack.pop() ?? '')
+      // 根元素结束，忽略之后的说明文字
+      if (stack.length === 0) {
+        return output
+      }
+    } else {
+      if (char === ',') {
+        cutPoints.push({ length: output.length, stack: [...stack] })
+      }
+      output += char
+    }
+  }
+
+  // 输出被截断：先尝试直接补全（截断在字符串中间时丢弃不完整的字符串），失败时依次回退到更早的截断位置
+  const close = (body: string, openStack: string[]) =>
+    body.replace(/[\s,:]*$/, '') + [...openStack].reverse().join('')
+  const candidates = [
+    ...(inString ? [] : [close(output, stack)]),
+    ...cutPoints.slice(-MAX_CUT_ATTEMPTS).reverse().map(point => close(output.slice(0, point.length), point.stack))
+  ]
+  for (const candidate of candidates) {
+    try {
+      JSON.parse(candidate)
+      return candidate
+    } catch {
+      // 继续尝试更早的位置
+    }
+  }
+  return output
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+/**
+ * 解析流式输出中尚未完成的思维导图 JSON，用于实时预览：
+ * 补全被截断的 JSON，去掉还没输出 topic 的节点，其余按 validateMindMap 规范化
+ */
+export function parsePartialMindMap(text: string): MindElixirData | null {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(repairJson(text))
+  } catch {
+    return null
+  }
+
+  const pruneIncompleteNodes = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(pruneIncompleteNodes)
+      return
+    }
+    if (!isObject(value)) return
+    Object.values(value).forEach(pruneIncompleteNodes)
+    if (Array.isArray(value.children)) {
+      value.children = value.children.filter(child =>
+        !isObject(child) || typeof child.topic === 'string' || typeof child.topic === 'number'
+      )
+    }
+  }
+  pruneIncompleteNodes(parsed)
+
+  return validateMindMap(parsed).data
+}
+
+/**
+ * 校验思维导图结构：nodeData、节点的 topic / id / children、Summary 和 Arrow 的引用。
+ * 能确定修复方式的问题（ID 缺失或重复、children 不是数组、引用不存在的节点等）直接修复，
+ * 根节点缺失、节点没有 topic 等无法修复的问题记录在 errors 中
+ */
+export function validateMindMap(value: unknown): MindMapValidationResult {
+  const errors: string[] = []
+  const repairs: string[] = []
+
+  if (!isObject(value)) {
+    return { data: null, errors: ['返回内容不是 JSON 对象'], repairs }
+  }
+
+  let root = value
+  // 模型有时会多包一层，如 { "mindmap": { "nodeData": ... } }
+  const keys = Object.keys(root)
+  if (!('nodeData' in root) && keys.length === 1 && isObject(root[keys[0]]) && 'nodeData' in (root[keys[0]] as object)) {
+    root = root[keys[0]] as Record<string, unknown>
+    repairs.push(`去掉了外层的 ${keys[0]} 字段`)
+  }
+
+  let rawNodeData = root.nodeData
+  if (rawNodeData === undefined && 'topic' in root) {
+    rawNodeData = root
+    repairs.push('缺少 nodeData，已将根对象作为 nodeData')
+  }
+  if (!isObject(rawNodeData)) {
+    return { data: null, errors: ['缺少 nodeData 或 nodeData 不是对象'], repairs }
+  }
+
+  // 先收集模型给出的 ID，生成和重命名 ID 时避开
+  const reservedIds = new Set<string>()
+  const collectIds = (node: unknown, depth: number) => {
+    if (!isObject(node) || depth > MAX_NODE_DEPTH) return
+    if (typeof node.id === 'string' || typeof node.id === 'number') {
+      reservedIds.add(String(node.id))
+    }
+    if (Array.isArray(node.children)) {
+      node.children.forEach(child => collectIds(child, depth + 1))
+    }
+  }
+  collectIds(rawNodeData, 0)
+
+  const usedIds = new Set<string>()
+  let generatedId = 0
+  const nextId = () => {
+    do {
+      generatedId++
+    } while (usedIds.has(`n${generatedId}`) || reservedIds.has(`n${generatedId}`))
+    return `n${generatedId}`
+  }
+
+  const childCounts = new Map<string, number>()
+
+  const normalizeNode = (raw: Record<string, unknown>, path: string, depth: number): MindMapNode | null => {
+    if (depth > MAX_NODE_DEPTH) {
+      errors.push(`节点层级超过 ${MAX_NODE_DEPTH} 层`)
+      return null
+    }
+
+    let topic = raw.topic
+    if (typeof topic === 'number') {
+      topic = String(topic)
+    }
+    if (typeof topic !== 'string' || !topic.trim()) {
+      // 常见的字段名错误
+      const alias = [raw.title, raw.name, raw.text, raw.label].find(item => typeof item === 'string' && item.trim())
+      if (typeof alias === 'string') {
+        topic = alias
+        repairs.push(`节点 ${path} 使用了其他字段作为 topic`)
+      } else {
+        errors.push(`节点 ${path} 缺少 topic`)
+        return null
+      }
+    }
+
+    let id = typeof raw.id === 'string' || typeof raw.id === 'number' ? String(raw.id) : ''
+    if (!id) {
+      id = nextId()
+      repairs.push(`节点 ${path} 缺少 id，已生成 ${id}`)
+    } else if (usedIds.has(id)) {
+      let suffix = 2
+      while (usedIds.has(`${id}_${suffix}`) || reservedIds.has(`${id}_${suffix}`)) suffix++
+      repairs.push(`节点 ID ${id} 重复，已改为 ${id}_${suffix}`)
+      id = `${id}_${suffix}`
+    }
+    usedIds.add(id)
+
+    const node: MindMapNode = { ...(raw as Partial<MindMapNode>), topic: topic as string, id }
+
+    if (raw.tags !== undefined) {
+      if (typeof raw.tags === 'string') {
+        node.tags = [raw.tags]
+      } else if (Array.isArray(raw.tags)) {
+        node.tags = raw.tags.filter((tag): tag is string => typeof tag === 'string')
+      } else {
+        delete node.tags
+        repairs.push(`节点 ${id} 的 tags 格式不正确，已移除`)
+      }
+    }
+
+    let rawChildren = raw.children
+    if (rawChildren === undefined || rawChildren === null) {
+      delete node.children
+      childCounts.set(id, 0)
+      return node
+    }
+    if (isObject(rawChildren)) {
+      rawChildren = [rawChildren]
+      repairs.push(`节点 ${id} 的 children 不是数组，已修正`)
+    }
+    if (!Array.isArray(rawChildren)) {
+      errors.push(`节点 ${id} 的 children 必须是节点数组`)
+      return node
+    }
+
+    const children: MindMapNode[] = []
+    rawChildren.forEach((child: unknown, index: number) => {
+      const childPath = `${path}.children[${index}]`
+      if (typeof child === 'string' && child.trim()) {
+        repairs.push(`节点 ${childPath} 是字符串，已转为节点`)
+        const normalized = normalizeNode({ topic: child }, childPath, depth + 1)
+        if (normalized) children.push(normalized)
+      } else if (isObject(child) && Object.keys(child).length === 0) {
+        // 输出截断后补全括号时可能留下空对象
+        repairs.push(`节点 ${childPath} 是空对象，已移除`)
+      } else if (isObject(child)) {
+        const normalized = normalizeNode(child, childPath, depth + 1)
+        if (normalized) children.push(normalized)
+      } else {
+        repairs.push(`节点 ${childPath} 不是对象，已移除`)
+      }
+    })
+    node.children = children
+    childCounts.set(id, children.length)
+    return node
+  }
+
+  const nodeData = normalizeNode(rawNodeData, 'nodeData', 0)
+  if (!nodeData || errors.length > 0) {
+    return { data: null, errors, repairs }
+  }
+
+  const data: MindElixirData = { nodeData }
+
+  // Summary 必须引用存在的父节点，start / end 在该节点的子节点范围内
+  if (root.summaries !== undefined) {
+    if (!Array.isArray(root.summaries)) {
+      repairs.push('summaries 不是数组，已移除')
+    } else {
+      const summaryIds = new Set<string>()
+      const summaries: NonNullable<MindElixirData['summaries']> = []
+      root.summaries.forEach((summary: unknown, index: number) => {
+        if (!isObject(summary)) {
+          repairs.push(`summaries[${index}] 不是对象，已移除`)
+          return
+        }
+        const parent = String(summary.parent ?? '')
+        const count = childCounts.get(parent)
+        const start = Number(summary.start)
+        const end = Number(summary.end)
+        if (!count || !Number.isInteger(start) || !Number.isInteger(end) || start < 0 || start > end || end >= count) {
+          repairs.push(`summaries[${index}] 引用的节点或范围无效，已移除`)
+          return
+        }
+        let id = typeof summary.id === 'string' || typeof summary.id === 'number' ? String(summary.id) : ''
+        if (!id || summaryIds.has(id) || usedIds.has(id)) {
+          id = `s${index + 1}`
+          while (summaryIds.has(id) || usedIds.has(id)) id = `${id}_`
+        }
+        summaryIds.add(id)
+        summaries.push({ ...summary, id, parent, start, end, label: String(summary.label ?? '') })
+      })
+      data.summaries = summaries
+    }
+  }
+
+  if (Array.isArray(root.arrows)) {
+    data.arrows = root.arrows.filter((arrow: unknown) =>
+      isObject(arrow) && usedIds.has(String(arrow.from)) && usedIds.has(String(arrow.to))
+    ) as MindElixirData['arrows']
+    if (data.arrows!.length < root.arrows.length) {
+      repairs.push('移除了引用不存在节点的箭头')
+    }
+  }
+
+  return { data, errors, repairs }
+}
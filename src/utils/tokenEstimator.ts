@@ -0,0 +1,104 @@
+// 粗略的 token 估算：CJK 字符约 1 token/字，其他文本约 4 字符/token
+// 不同模型的分词器差异较大，这里只用于判断是否需要分块，宁可高估
+const CJK_PATTERN = /[\u3000-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef]/g
+
+export function estimateTokens(text: string): number {
+  if (!text) return 0
+  const cjkCount = (text.match(CJK_PATTERN) || []).length
+  const otherCount = text.length - cjkCount
+  return Math.ceil(cjkCount * 1.1 + otherCount / 4)
+}
+
+// 按每百万 token 的单价计算费用，未设置价格时返回 null
+export function calculateCost(inputTokens: number, outputTokens: number, inputPrice?: number, outputPrice?: number): number | null {
+  if (!inputPrice && !outputPrice) return null
+  return (inputTokens * (inputPrice || 0) + outputTokens * (outputPrice || 0)) / 1_000_000
+}
+
+// 金额较小时多保留几位小数
+export function formatCost(cost: number | null): string {
+  if (cost === null) return '-'
+  return cost < 0.01 ? cost.toFixed(4) : cost.toFixed(2)
+}
+
+// 以 k / M 为单位显示 token 数
+export function formatTokenCount(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`
+  if (tokens >= 1000) return `${(tokens / 1000).toFixed(1)}k`
+  return String(tokens)
+}
+
+export interface ChunkSection {
+  title: string
+  content: string
+}
+
+/**
+ * 把章节按 token 上限切分为多个分块，尽量在章节边界切分；
+ * 单个章节超出上限时按段落切分，超长段落再按字符硬切
+ * 返回的分块格式与整组请求一致（## 标题 + 内容）
+ */
+export function splitIntoChunks(sections: ChunkSection[], maxTokens: number): string[] {
+  const chunks: string[] = []
+  let current = ''
+  let currentTokens = 0
+
+  const pushPiece = (piece: string) => {
+    const pieceTokens = estimateTokens(piece)
+    if (current && currentTokens + pieceTokens > maxTokens) {
+      chunks.push(current)
+      current = ''
+      currentTokens = 0
+    }
+    current = current ? `${current}\n\n${piece}` : piece
+    currentTokens += pieceTokens
+  }
+
+  for (const section of sections) {
+    const text = `## ${section.title}\n\n${section.content}`
+    if (estimateTokens(text) <= maxTokens) {
+      pushPiece(text)
+      continue
+    }
+
+    // 超长章节：按段落累积，每个分块都带上章节标题以保留上下文
+    let part = 1
+    let buffer = ''
+    const heading = () => `## ${section.title}${part > 1 ? ` (${part})` : ''}\n\n`
+    for (const paragraph of splitLongText(section.content, maxTokens)) {
+      if (buffer && estimateTokens(heading() + buffer + '\n\n' + paragraph) > maxTokens) {
+        pushPiece(heading() + buffer)
+        part++
+        buffer = ''
+      }
+      buffer = buffer ? `${buffer}\n\n${paragraph}` : paragraph
+    }
+    if (buffer) {
+      pushPiece(heading() + buffer)
+    }
+  }
+
+  if (current) {
+    chunks.push(current)
+  }
+  return chunks
+}
+
+// 按段落拆分，超过上限的段落按字符数硬切
+function splitLongText(text: string, maxTokens: number): string[] {
+  const pieces: string[] = []
+  for (const paragraph of text.split(/\n{2,}/)) {
+    if (!paragraph.trim()) continue
+    const tokens = estimateTokens(paragraph)
+    if (tokens <= maxTokens * 0.9) {
+      pieces.push(paragraph)
+      continue
+    }
+    // 按比例估算每段可容纳的字符数
+    const charsPerPiece = Math.max(1, Math.floor(paragraph.length * (maxTokens * 0.9) / tokens))
+    for (let i = 0; i < paragraph.length; i += charsPerPiece) {
+      pieces.push(paragraph.slice(i, i + charsPerPiece))
+    }
+  }
+  return pieces
+}